@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/admin-auth"
+import { getIndexerStatus, syncPassportIndex } from "@/lib/indexer"
+
+// better-sqlite3 is a native module
+export const runtime = "nodejs"
+export const maxDuration = 300
+
+async function runSync(maxBlocks?: number) {
+  try {
+    const result = await syncPassportIndex({ maxBlocks })
+    return NextResponse.json({ ...result, status: await getIndexerStatus() })
+  } catch (error) {
+    console.error("Indexer API error:", error)
+    const message = error instanceof Error ? error.message : "Internal server error"
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
+
+/** Vercel Cron entry point, indexes new blocks with default options */
+export async function GET(req: Request) {
+  if (!isAdminRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  return runSync()
+}
+
+export async function POST(req: Request) {
+  if (!isAdminRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const body = await req.json().catch(() => ({}))
+  const maxBlocks = body.maxBlocks === undefined ? undefined : Number(body.maxBlocks)
+  if (maxBlocks !== undefined && (!Number.isInteger(maxBlocks) || maxBlocks <= 0)) {
+    return NextResponse.json({ error: "maxBlocks must be a positive integer" }, { status: 400 })
+  }
+
+  return runSync(maxBlocks)
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/admin-auth"
+import { getContractAddress } from "@/lib/contract"
+import { getHistoryStore, toSafeBatch, type ScoreChangeStatus } from "@/lib/refresh"
+
+const STATUSES: ScoreChangeStatus[] = ["submitted", "queued", "failed"]
+
+export async function GET(req: Request) {
+  if (!isAdminRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(req.url)
+  const tokenId = searchParams.get("tokenId")
+  const status = searchParams.get("status")
+  const limit = Number.parseInt(searchParams.get("limit") || "100")
+  // `format=safe` returns queued changes as a Safe Transaction Builder batch
+  const format = searchParams.get("format")
+
+  if (status && !STATUSES.includes(status as ScoreChangeStatus)) {
+    return NextResponse.json({ error: `Unknown status: ${status}` }, { status: 400 })
+  }
+
+  try {
+    const changes = await getHistoryStore().list({
+      tokenId: tokenId ? Number.parseInt(tokenId) : undefined,
+      status: format === "safe" ? "queued" : (status as ScoreChangeStatus | null) ?? undefined,
+      limit: Number.isFinite(limit) && limit > 0 ? limit : 100,
+    })
+
+    if (format === "safe") {
+      const contractAddress = getContractAddress()
+      if (!contractAddress) {
+        return NextResponse.json({ error: "Contract address not configured" }, { status: 500 })
+      }
+      return NextResponse.json(toSafeBatch(changes, contractAddress, process.env.REFRESH_SAFE_ADDRESS))
+    }
+
+    return NextResponse.json({ changes })
+  } catch (error) {
+    console.error("Refresh history API error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+import { isAdminRequest } from "@/lib/admin-auth"
+import { refreshNextBatch, refreshPassports, type RefreshResult } from "@/lib/refresh"
+
+// Refreshing a full batch reads the chain and Neynar for every passport
+export const maxDuration = 300
+
+// Stop starting passports a minute early, leaving time for the ones in flight
+const REFRESH_TIME_BUDGET_MS = (maxDuration - 60) * 1000
+
+async function runRefresh(refresh: () => Promise<RefreshResult>) {
+  try {
+    const result = await refresh()
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Refresh API error:", error)
+    const message = error instanceof Error ? error.message : "Internal server error"
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+}
+
+function parseOptionalNumber(value: unknown): number | undefined | null {
+  if (value === undefined || value === null || value === "") return undefined
+  const number = Number(value)
+  return Number.isFinite(number) && number >= 0 ? number : null
+}
+
+/** Vercel Cron entry point, refreshes the next batch after the stored cursor */
+export async function GET(req: Request) {
+  if (!isAdminRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+  return runRefresh(() => refreshNextBatch({ deadline: Date.now() + REFRESH_TIME_BUDGET_MS }))
+}
+
+export async function POST(req: Request) {
+  if (!isAdminRequest(req)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const body = await req.json().catch(() => ({}))
+  const fromTokenId = parseOptionalNumber(body.fromTokenId)
+  const limit = parseOptionalNumber(body.limit)
+  const threshold = parseOptionalNumber(body.threshold)
+
+  if (fromTokenId === null || limit === null || threshold === null) {
+    return NextResponse.json({ error: "fromTokenId, limit and threshold must be non-negative numbers" }, { status: 400 })
+  }
+
+  const deadline = Date.now() + REFRESH_TIME_BUDGET_MS
+  return runRefresh(() => refreshPassports({ fromTokenId, limit, threshold, dryRun: body.dryRun === true, deadline }))
+}
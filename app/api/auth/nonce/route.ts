@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server"
+import { isAddress } from "viem"
+import { generateSiweNonce } from "viem/siwe"
+import { NeynarApiError } from "@/lib/neynar"
+import { resolveIdentifier } from "@/lib/resolver"
+import { NONCE_COOKIE, NONCE_TTL_SECONDS, getCookieOptions, hasSessionSecret, signToken } from "@/lib/session"
+
+// Auth routes are same-origin only: they set cookies, so no wildcard CORS headers
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url)
+  // Optional: the wallet about to sign, so the client learns which FID to put in the message
+  const address = searchParams.get("address")
+
+  if (!hasSessionSecret()) {
+    return NextResponse.json({ error: "Sign in is not configured. Please set SESSION_SECRET in your environment variables." }, { status: 500 })
+  }
+
+  if (address && !isAddress(address)) {
+    return NextResponse.json({ error: "Invalid wallet address" }, { status: 400 })
+  }
+
+  try {
+    const identity = address ? await resolveIdentifier(address) : null
+    const nonce = generateSiweNonce()
+
+    const response = NextResponse.json({ nonce, fid: identity?.fid ?? null })
+    const token = await signToken({ nonce, expiresAt: Math.floor(Date.now() / 1000) + NONCE_TTL_SECONDS })
+    response.cookies.set(NONCE_COOKIE, token, getCookieOptions(NONCE_TTL_SECONDS))
+    return response
+  } catch (error) {
+    if (error instanceof NeynarApiError) {
+      return NextResponse.json({ error: "Failed to fetch Farcaster data" }, { status: 500 })
+    }
+    console.error("Auth nonce API error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
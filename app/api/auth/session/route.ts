@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { SESSION_COOKIE, getCookieOptions, getSession } from "@/lib/session"
+
+export async function GET(req: Request) {
+  const session = await getSession(req)
+  if (!session) {
+    return NextResponse.json({ authenticated: false })
+  }
+
+  return NextResponse.json({
+    authenticated: true,
+    fid: session.fid,
+    address: session.address,
+    expiresAt: session.expiresAt,
+  })
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ authenticated: false })
+  response.cookies.set(SESSION_COOKIE, "", getCookieOptions(0))
+  return response
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server"
+import { NeynarApiError, fetchUsersByFid, hasNeynarApiKey } from "@/lib/neynar"
+import { verifySiwfMessage } from "@/lib/siwf"
+import { verifyFidOwnership } from "@/lib/ownership"
+import {
+  NONCE_COOKIE,
+  SESSION_COOKIE,
+  createSessionToken,
+  getCookieOptions,
+  getSessionTtlSeconds,
+  hasSessionSecret,
+  readCookie,
+  verifyToken,
+} from "@/lib/session"
+
+export async function POST(req: Request) {
+  if (!hasSessionSecret()) {
+    return NextResponse.json({ error: "Sign in is not configured. Please set SESSION_SECRET in your environment variables." }, { status: 500 })
+  }
+
+  try {
+    const body = await req.json()
+    const { message, signature } = body
+
+    if (typeof message !== "string" || typeof signature !== "string") {
+      return NextResponse.json({ error: "message and signature are required", code: "INVALID_REQUEST" }, { status: 400 })
+    }
+
+    // The nonce cookie from /api/auth/nonce makes each signed message single-use
+    const nonceToken = readCookie(req, NONCE_COOKIE)
+    const issued = nonceToken ? await verifyToken<{ nonce: string; expiresAt: number }>(nonceToken) : null
+    if (!issued || issued.expiresAt <= Math.floor(Date.now() / 1000)) {
+      return NextResponse.json({ error: "Sign-in nonce missing or expired, please try again", code: "NONCE_EXPIRED" }, { status: 401 })
+    }
+
+    const domain = new URL(req.url).host
+    const siwf = await verifySiwfMessage({ message, signature: signature as `0x${string}` }, { domain, nonce: issued.nonce })
+    if (!siwf.ok) {
+      return NextResponse.json({ error: siwf.error, code: siwf.code }, { status: 401 })
+    }
+
+    if (!hasNeynarApiKey()) {
+      return NextResponse.json({ error: "Sign in requires NEYNAR_API_KEY to look up FID addresses", code: "NOT_CONFIGURED" }, { status: 500 })
+    }
+
+    const [user] = await fetchUsersByFid([siwf.fid])
+    if (!user) {
+      return NextResponse.json({ error: "User not found", code: "FID_NOT_FOUND" }, { status: 404 })
+    }
+
+    // The signer must be the FID's custody address or one of its verified addresses
+    const ownership = verifyFidOwnership(
+      { fid: user.fid, custody: user.custody_address || "", verifiedAddresses: user.verified_addresses?.eth_addresses || [] },
+      siwf.address,
+    )
+    if (!ownership.ok) {
+      return NextResponse.json({ error: ownership.error, code: ownership.code }, { status: 403 })
+    }
+
+    const response = NextResponse.json({ fid: siwf.fid, address: siwf.address })
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(siwf.fid, siwf.address), getCookieOptions(getSessionTtlSeconds()))
+    response.cookies.set(NONCE_COOKIE, "", getCookieOptions(0))
+    return response
+  } catch (error) {
+    if (error instanceof NeynarApiError) {
+      return NextResponse.json({ error: "Failed to fetch Farcaster data", code: "UPSTREAM_ERROR" }, { status: 500 })
+    }
+    console.error("Auth verify API error:", error)
+    return NextResponse.json({ error: "Internal server error", code: "INTERNAL_ERROR" }, { status: 500 })
+  }
+}
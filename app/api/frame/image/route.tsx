@@ -1,4 +1,5 @@
 import { ImageResponse } from "next/og"
+import { getBadgeHexColor } from "@/lib/badge-colors"
 
 export const runtime = "edge"
 
@@ -17,19 +18,6 @@ export async function GET(req: Request) {
   const username = searchParams.get("username")
   const error = searchParams.get("error")
 
-  const getBadgeColor = (badge: string) => {
-    switch (badge) {
-      case "OG":
-        return "#10b981"
-      case "Onchain":
-        return "#3b82f6"
-      case "Active":
-        return "#eab308"
-      default:
-        return "#6b7280"
-    }
-  }
-
   if (error) {
     return new ImageResponse(
       <div
@@ -109,7 +97,7 @@ export async function GET(req: Request) {
         </div>
         <div
           style={{
-            background: getBadgeColor(badge),
+            background: getBadgeHexColor(badge),
             padding: "10px 30px",
             borderRadius: 20,
             fontSize: 28,
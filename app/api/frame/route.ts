@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server"
+import { getPassport } from "@/lib/passport-service"
 
 export async function POST(req: Request) {
   // Add CORS headers to all responses
@@ -30,16 +31,15 @@ export async function POST(req: Request) {
       )
     }
 
-    // Fetch score data using dynamic base URL
-    const scoreRes = await fetch(`${baseUrl}/api/score?fid=${fid}`)
-    const scoreData = await scoreRes.json()
+    // Score through the shared cache instead of calling /api/score over HTTP
+    const scoreData = (await getPassport(Number.parseInt(fid)))?.passport
 
     console.log("Score data:", scoreData)
 
-    if (scoreData.error) {
+    if (!scoreData) {
       return NextResponse.json(
         {
-          image: `${baseUrl}/api/frame/image?error=${encodeURIComponent(scoreData.error)}`,
+          image: `${baseUrl}/api/frame/image?error=${encodeURIComponent("User not found")}`,
           buttons: [{ label: "Try Again" }],
         },
         { headers: corsHeaders },
@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server"
+import { getSession } from "@/lib/session"
+import { DEFAULT_LEADERBOARD_PAGE_SIZE, MAX_LEADERBOARD_PAGE_SIZE, getLeaderboard } from "@/lib/leaderboard"
+import { BADGE_COLORS } from "@/lib/badge-colors"
+import { IndexerNotConfiguredError } from "@/lib/indexer"
+
+// The indexer's SQLite store is a native module
+export const runtime = "nodejs"
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+}
+
+const DAY_SECONDS = 24 * 60 * 60
+
+/**
+ * ISO date or unix seconds to unix seconds; NaN when present but invalid.
+ * A date without a time is the start of that UTC day, or its last second
+ * with `endOfDay` so an upper bound includes the whole day.
+ */
+function parseDate(value: string | null, endOfDay = false): number | undefined {
+  if (!value) return undefined
+  if (/^\d+$/.test(value)) return Number(value)
+  const seconds = Math.floor(Date.parse(value) / 1000)
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? seconds + DAY_SECONDS - 1 : seconds
+}
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url)
+  const badge = searchParams.get("badge") || undefined
+  const page = Number(searchParams.get("page") || 1)
+  const pageSize = Number(searchParams.get("pageSize") || DEFAULT_LEADERBOARD_PAGE_SIZE)
+  const mintedFrom = parseDate(searchParams.get("mintedFrom"))
+  const mintedTo = parseDate(searchParams.get("mintedTo"), true)
+
+  if (badge && !Object.hasOwn(BADGE_COLORS, badge)) {
+    return NextResponse.json({ error: `Unknown badge: ${badge}` }, { status: 400, headers: corsHeaders })
+  }
+
+  if (!Number.isInteger(page) || page <= 0) {
+    return NextResponse.json({ error: "page must be a positive integer" }, { status: 400, headers: corsHeaders })
+  }
+
+  if (!Number.isInteger(pageSize) || pageSize <= 0 || pageSize > MAX_LEADERBOARD_PAGE_SIZE) {
+    return NextResponse.json(
+      { error: `pageSize must be between 1 and ${MAX_LEADERBOARD_PAGE_SIZE}` },
+      { status: 400, headers: corsHeaders },
+    )
+  }
+
+  if (Number.isNaN(mintedFrom) || Number.isNaN(mintedTo)) {
+    return NextResponse.json(
+      { error: "mintedFrom and mintedTo must be ISO dates or unix timestamps" },
+      { status: 400, headers: corsHeaders },
+    )
+  }
+
+  // The signed-in viewer wins over `fid`, which lets frames and other clients highlight a user
+  const session = await getSession(req)
+  const viewerFid = session?.fid ?? (Number(searchParams.get("fid")) || undefined)
+
+  try {
+    const leaderboard = await getLeaderboard({ badge, mintedFrom, mintedTo }, { page, pageSize, viewerFid })
+    return NextResponse.json(leaderboard, {
+      headers: { ...corsHeaders, "Cache-Control": session ? "private, no-store" : "public, s-maxage=60" },
+    })
+  } catch (error) {
+    if (error instanceof IndexerNotConfiguredError) {
+      return NextResponse.json(
+        { error: "The leaderboard isn't available on this deployment", code: "INDEXER_UNAVAILABLE" },
+        { status: 503, headers: corsHeaders },
+      )
+    }
+    console.error("Leaderboard API error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500, headers: corsHeaders })
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 200, headers: corsHeaders })
+}
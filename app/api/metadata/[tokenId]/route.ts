@@ -1,23 +1,82 @@
 import { NextResponse } from "next/server"
+import { ContractNotConfiguredError, readPassport } from "@/lib/contract"
+import { getPassport } from "@/lib/passport-service"
+import { buildTokenMetadata, buildTokenUri } from "@/lib/passport-svg"
 
-export async function GET(_: Request, { params }: { params: { tokenId: string } }) {
-  const tokenId = params.tokenId
-
-  // In production, fetch this data from the blockchain
-  // For now, we'll return a template
-  const metadata = {
-    name: `Farcaster Reputation Passport #${tokenId}`,
-    description: "On-chain reputation identity for Farcaster users, powered by social and on-chain activity.",
-    image: `${process.env.NEXT_PUBLIC_APP_URL}/api/passport-nft/${tokenId}`,
-    external_url: `${process.env.NEXT_PUBLIC_APP_URL}/passport/${tokenId}`,
-    attributes: [
-      { trait_type: "FID", value: 0 },
-      { trait_type: "Username", value: "" },
-      { trait_type: "Score", value: 0 },
-      { trait_type: "Badge", value: "Newcomer" },
-      { trait_type: "Generation", value: 1 },
-    ],
+const headers = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+}
+
+export async function GET(req: Request, { params }: { params: Promise<{ tokenId: string }> }) {
+  const { tokenId: rawTokenId } = await params
+  const tokenId = Number(rawTokenId)
+  const { searchParams } = new URL(req.url)
+  // "onchain" serves the self-contained metadata an on-chain renderer must reproduce
+  const renderer = searchParams.get("renderer") || process.env.PASSPORT_RENDERER || "hosted"
+
+  if (!Number.isInteger(tokenId) || tokenId <= 0) {
+    return NextResponse.json({ error: "Invalid token ID" }, { status: 400, headers })
+  }
+
+  try {
+    const passport = await readPassport(tokenId)
+    if (!passport) {
+      return NextResponse.json({ error: "Passport not found" }, { status: 404, headers })
+    }
+
+    if (renderer === "onchain") {
+      const input = { tokenId, fid: passport.fid, score: passport.score, badge: passport.badge, mintedAt: passport.mintedAt }
+      if (searchParams.get("format") === "uri") {
+        return new Response(buildTokenUri(input), { headers: { ...headers, "Content-Type": "text/plain" } })
+      }
+      return new Response(buildTokenMetadata(input), { headers: { ...headers, "Content-Type": "application/json" } })
+    }
+
+    // Score and badge always come from the chain, the profile only adds context
+    const profile = await getPassport(passport.fid)
+      .then((result) => result?.passport)
+      .catch((error) => {
+        console.error(`Failed to load profile for FID ${passport.fid}:`, error)
+        return undefined
+      })
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL
+    const metadata = {
+      name: profile
+        ? `${profile.displayName} - Reputation Passport #${tokenId}`
+        : `Farcaster Reputation Passport #${tokenId}`,
+      description: "On-chain reputation identity for Farcaster users, powered by social and on-chain activity.",
+      // Versioned so marketplaces pick up a new image after updateScore
+      image: `${appUrl}/api/passport-nft/${tokenId}?v=${passport.lastUpdated}`,
+      external_url: `${appUrl}/passport/${tokenId}`,
+      attributes: [
+        { trait_type: "FID", value: passport.fid },
+        ...(profile ? [{ trait_type: "Username", value: profile.username }] : []),
+        { trait_type: "Score", value: passport.score, display_type: "number", max_value: 1000 },
+        { trait_type: "Badge", value: passport.badge },
+        { trait_type: "Generation", value: 1, display_type: "number" },
+        { trait_type: "Minted", value: passport.mintedAt, display_type: "date" },
+        { trait_type: "Last Updated", value: passport.lastUpdated, display_type: "date" },
+      ],
+    }
+
+    return NextResponse.json(metadata, {
+      headers: { ...headers, "Cache-Control": "public, max-age=300, stale-while-revalidate=3600" },
+    })
+  } catch (error) {
+    if (error instanceof ContractNotConfiguredError) {
+      return NextResponse.json({ error: error.message }, { status: 500, headers })
+    }
+    console.error("Metadata API error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500, headers })
   }
+}
 
-  return NextResponse.json(metadata)
+export async function OPTIONS() {
+  return new Response(null, {
+    status: 200,
+    headers,
+  })
 }
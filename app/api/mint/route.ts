@@ -1,4 +1,12 @@
 import { NextResponse } from "next/server"
+import { isAddress } from "viem"
+import { NeynarApiError } from "@/lib/neynar"
+import { getPassport } from "@/lib/passport-service"
+import { ContractNotConfiguredError, publicClient, readPassportByFid, requireContractAddress } from "@/lib/contract"
+import { hasMintSigner, signMintVoucher } from "@/lib/mint-signer"
+import { preflightMint, serializeMintVoucher } from "@/lib/mint-voucher"
+import { verifyFidOwnership } from "@/lib/ownership"
+import { getSession } from "@/lib/session"
 
 export async function POST(req: Request) {
   const corsHeaders = {
@@ -10,38 +18,105 @@ export async function POST(req: Request) {
 
   try {
     const body = await req.json()
-    const { fid, to, score, badge } = body
+    // Score and badge are never taken from the client, they are recomputed below.
+    // A session for the FID is only needed when `to` isn't linked to the FID.
+    const { fid, to } = body
 
     if (!fid || !to) {
-      return NextResponse.json({ error: "FID and wallet address are required" }, { status: 400, headers: corsHeaders })
+      return NextResponse.json({ error: "FID and wallet address are required", code: "INVALID_REQUEST" }, { status: 400, headers: corsHeaders })
     }
 
-    const contractAddress = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS
-    if (!contractAddress || contractAddress === "0x0000000000000000000000000000000000000000") {
-      return NextResponse.json({ error: "Contract address not configured. Please set NEXT_PUBLIC_CONTRACT_ADDRESS in your environment variables." }, { status: 500, headers: corsHeaders })
+    const fidNumber = Number(fid)
+    if (!Number.isInteger(fidNumber) || fidNumber <= 0) {
+      return NextResponse.json({ error: "Invalid FID", code: "INVALID_FID" }, { status: 400, headers: corsHeaders })
     }
 
-    // Validate score and badge
-    const validScore = Math.min(Math.max(score || 0, 0), 1000)
-    const validBadge = badge || "Newcomer"
+    if (typeof to !== "string" || !isAddress(to)) {
+      return NextResponse.json({ error: "Invalid wallet address", code: "INVALID_ADDRESS" }, { status: 400, headers: corsHeaders })
+    }
+
+    const contractAddress = requireContractAddress()
+
+    if (!hasMintSigner()) {
+      return NextResponse.json({ error: "Mint signer not configured. Please set MINT_SIGNER_PRIVATE_KEY in your environment variables.", code: "NOT_CONFIGURED" }, { status: 500, headers: corsHeaders })
+    }
+
+    const result = await getPassport(fidNumber)
+    if (!result) {
+      return NextResponse.json({ error: "User not found", code: "FID_NOT_FOUND" }, { status: 404, headers: corsHeaders })
+    }
+
+    const { passport } = result
+    const session = await getSession(req)
+    const ownership = verifyFidOwnership(passport, to, { sessionFid: session?.fid })
+    if (!ownership.ok) {
+      return NextResponse.json({ error: ownership.error, code: ownership.code }, { status: 403, headers: corsHeaders })
+    }
 
-    // Return the transaction parameters for client-side execution
+    // One passport per FID: catch the contract's duplicate check before the wallet is prompted
+    const existing = await readPassportByFid(fidNumber)
+    if (existing) {
+      return NextResponse.json(
+        { error: `FID ${fidNumber} already has passport #${existing.tokenId}`, code: "ALREADY_MINTED", tokenId: existing.tokenId },
+        { status: 409, headers: corsHeaders },
+      )
+    }
+
+    const { voucher, signature } = await signMintVoucher(contractAddress, {
+      fid: passport.fid,
+      to,
+      score: passport.score,
+      badge: passport.badge,
+      scoringVersion: passport.scoringVersion,
+    })
+    const serializedVoucher = serializeMintVoucher(voucher)
+
+    // Dry-run the mint as the recipient so reverts are reported before the wallet prompt
+    const preflight = await preflightMint(publicClient, { contractAddress, voucher, signature, account: to }).catch((error) => {
+      console.error("Mint preflight error:", error)
+      return null
+    })
+    if (!preflight) {
+      return NextResponse.json(
+        { error: "Couldn't simulate the mint on Base. Please try again.", code: "UPSTREAM_ERROR" },
+        { status: 502, headers: corsHeaders },
+      )
+    }
+    if (!preflight.ok) {
+      return NextResponse.json(
+        { error: preflight.error, code: "SIMULATION_FAILED", reason: preflight.reason },
+        { status: 422, headers: corsHeaders },
+      )
+    }
+
+    // Return the signed voucher and transaction parameters for client-side execution
     const transactionData = {
       contractAddress,
-      functionName: "mintPassport",
-      args: [to, fid, validScore, validBadge],
-      estimatedGas: "150000",
+      functionName: "mintPassportWithVoucher",
+      args: [serializedVoucher, signature],
+      estimatedGas: preflight.gas.toString(),
+      maxFeePerGas: preflight.maxFeePerGas.toString(),
+      estimatedFeeWei: preflight.feeWei.toString(),
       chainId: 8453, // Base Mainnet
     }
 
-    return NextResponse.json({ 
-      success: true, 
+    return NextResponse.json({
+      success: true,
+      ownership: ownership.method,
+      voucher: serializedVoucher,
+      signature,
       transaction: transactionData,
-      message: "Transaction data prepared. Use wagmi to execute on client side."
+      message: "Mint voucher signed. Use wagmi to execute on client side."
     }, { headers: corsHeaders })
   } catch (error) {
+    if (error instanceof ContractNotConfiguredError) {
+      return NextResponse.json({ error: error.message, code: "NOT_CONFIGURED" }, { status: 500, headers: corsHeaders })
+    }
+    if (error instanceof NeynarApiError) {
+      return NextResponse.json({ error: "Failed to fetch Farcaster data", code: "UPSTREAM_ERROR" }, { status: 500, headers: corsHeaders })
+    }
     console.error("Mint API error:", error)
-    return NextResponse.json({ error: "Internal server error" }, { status: 500, headers: corsHeaders })
+    return NextResponse.json({ error: "Internal server error", code: "INTERNAL_ERROR" }, { status: 500, headers: corsHeaders })
   }
 }
 
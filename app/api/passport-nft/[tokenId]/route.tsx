@@ -1,9 +1,65 @@
 import { ImageResponse } from "next/og"
+import { getBadgeHexColor } from "@/lib/badge-colors"
+import { getContractAddress, readPassport } from "@/lib/contract"
+import { getCachedPassport } from "@/lib/passport-service"
 
-export const runtime = "edge"
+// Node so the image reads the same score cache as the API routes
+export const runtime = "nodejs"
+
+export async function GET(req: Request, { params }: { params: Promise<{ tokenId: string }> }) {
+  const { tokenId: rawTokenId } = await params
+  const tokenId = Number(rawTokenId)
+
+  if (!Number.isInteger(tokenId) || tokenId <= 0) {
+    return new Response("Invalid token ID", { status: 400 })
+  }
+
+  if (!getContractAddress()) {
+    return new Response("Contract address not configured", { status: 500 })
+  }
+
+  const passport = await readPassport(tokenId).catch((error) => {
+    console.error("Passport image error:", error)
+    return undefined
+  })
+  if (passport === undefined) {
+    return new Response("Failed to read passport", { status: 500 })
+  }
+  if (!passport) {
+    return new Response("Passport not found", { status: 404 })
+  }
+
+  // Profile fields come from the score cache only, a miss renders without them
+  // instead of scoring the FID on every image request
+  const cachedProfile = await getCachedPassport(passport.fid)
+  const profile = cachedProfile?.passport
+
+  // The image changes with the on-chain score and with the cached profile it shows
+  const etag = `"${tokenId}-${passport.lastUpdated}-${cachedProfile?.storedAt ?? 0}"`
+  const lastModified = Math.max(passport.lastUpdated * 1000, cachedProfile?.storedAt ?? 0)
+  const headers = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, OPTIONS",
+    ETag: etag,
+    "Last-Modified": new Date(lastModified).toUTCString(),
+    // Bounded even for versioned URLs, the profile stats change independently of lastUpdated
+    "Cache-Control": "public, max-age=300, s-maxage=3600, stale-while-revalidate=86400",
+  }
+
+  if (req.headers.get("if-none-match") === etag) {
+    return new Response(null, { status: 304, headers })
+  }
+
+  const badgeColor = getBadgeHexColor(passport.badge)
+  const stats = profile
+    ? [
+        { label: "Followers", value: profile.followers.toLocaleString("en-US") },
+        { label: "Casts", value: profile.casts.toLocaleString("en-US") },
+        { label: "Transactions", value: profile.txCount.toLocaleString("en-US") },
+        { label: "Account age", value: `${profile.ageDays}d` },
+      ]
+    : []
 
-export async function GET(_: Request, { params }: { params: { tokenId: string } }) {
-  // In production, fetch passport data from blockchain
   return new ImageResponse(
     <div
       style={{
@@ -13,18 +69,112 @@ export async function GET(_: Request, { params }: { params: { tokenId: string }
         color: "white",
         display: "flex",
         flexDirection: "column",
-        alignItems: "center",
-        justifyContent: "center",
-        padding: 60,
+        padding: 80,
       }}
     >
-      <div style={{ fontSize: 80, fontWeight: "bold", marginBottom: 30 }}>🪪</div>
-      <div style={{ fontSize: 48, fontWeight: "bold" }}>Reputation Passport</div>
-      <div style={{ fontSize: 32, opacity: 0.8, marginTop: 20 }}>#{params.tokenId}</div>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+        <div style={{ display: "flex", alignItems: "center" }}>
+          {profile && (
+            <img
+              src={profile.pfpUrl}
+              width={160}
+              height={160}
+              style={{ borderRadius: 80, border: "6px solid rgba(255,255,255,0.5)", marginRight: 40 }}
+            />
+          )}
+          <div style={{ display: "flex", flexDirection: "column" }}>
+            <div style={{ fontSize: 64, fontWeight: "bold" }}>{profile ? profile.displayName : `FID ${passport.fid}`}</div>
+            <div style={{ fontSize: 36, opacity: 0.8, marginTop: 8 }}>
+              {profile ? `@${profile.username} · FID ${passport.fid}` : "Farcaster Reputation Passport"}
+            </div>
+          </div>
+        </div>
+        <div
+          style={{
+            background: badgeColor,
+            padding: "16px 40px",
+            borderRadius: 40,
+            fontSize: 40,
+            fontWeight: "bold",
+          }}
+        >
+          {passport.badge}
+        </div>
+      </div>
+
+      <div
+        style={{
+          flex: 1,
+          display: "flex",
+          flexDirection: "column",
+          alignItems: "center",
+          justifyContent: "center",
+        }}
+      >
+        <div style={{ fontSize: 220, fontWeight: "bold", lineHeight: 1 }}>{passport.score}</div>
+        <div style={{ fontSize: 40, opacity: 0.8, marginTop: 16 }}>Reputation Score</div>
+        <div
+          style={{
+            display: "flex",
+            width: 800,
+            height: 28,
+            marginTop: 40,
+            borderRadius: 14,
+            background: "rgba(255,255,255,0.2)",
+          }}
+        >
+          <div
+            style={{
+              width: `${(passport.score / 1000) * 100}%`,
+              height: "100%",
+              borderRadius: 14,
+              background: badgeColor,
+            }}
+          />
+        </div>
+      </div>
+
+      {stats.length > 0 && (
+        <div style={{ display: "flex", justifyContent: "space-between", marginBottom: 40 }}>
+          {stats.map((stat) => (
+            <div
+              key={stat.label}
+              style={{
+                display: "flex",
+                flexDirection: "column",
+                background: "rgba(255,255,255,0.1)",
+                borderRadius: 20,
+                padding: "20px 28px",
+                width: 240,
+              }}
+            >
+              <div style={{ fontSize: 24, opacity: 0.7 }}>{stat.label}</div>
+              <div style={{ fontSize: 44, fontWeight: "bold" }}>{stat.value}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: "flex", justifyContent: "space-between", fontSize: 28, opacity: 0.7 }}>
+        <div>Reputation Passport #{tokenId}</div>
+        <div>Updated {new Date(passport.lastUpdated * 1000).toISOString().slice(0, 10)}</div>
+      </div>
     </div>,
     {
       width: 1200,
       height: 1200,
+      headers,
     },
   )
 }
+
+export async function OPTIONS() {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type",
+    },
+  })
+}
@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server"
+import { NeynarApiError } from "@/lib/neynar"
+import { getContractAddress, readPassportByFid } from "@/lib/contract"
+import { RefreshRateLimitError, getRefreshRequest, requestPassportRefresh } from "@/lib/refresh"
+import { getSession } from "@/lib/session"
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+}
+
+function parseFid(value: unknown): number | null {
+  const fid = Number(value)
+  return Number.isInteger(fid) && fid > 0 ? fid : null
+}
+
+/** On-chain passport for `fid` and the status of its latest refresh request */
+export async function GET(req: Request) {
+  const fid = parseFid(new URL(req.url).searchParams.get("fid"))
+  if (!fid) {
+    return NextResponse.json({ error: "Valid FID required" }, { status: 400, headers: corsHeaders })
+  }
+
+  if (!getContractAddress()) {
+    return NextResponse.json({ error: "Contract address not configured" }, { status: 500, headers: corsHeaders })
+  }
+
+  try {
+    const onchain = await readPassportByFid(fid)
+    const latest = await getRefreshRequest(fid, onchain)
+
+    return NextResponse.json(
+      {
+        onchain,
+        request: latest?.request ?? null,
+        retryAfterSeconds: latest?.retryAfterSeconds ?? 0,
+      },
+      { headers: corsHeaders },
+    )
+  } catch (error) {
+    console.error("Passport refresh API error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500, headers: corsHeaders })
+  }
+}
+
+/** Asks the backend updater to recompute and push a holder's score, for a caller signed in as the FID */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => null)
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: "Request body must be a JSON object", code: "INVALID_REQUEST" },
+        { status: 400, headers: corsHeaders },
+      )
+    }
+
+    const fid = parseFid(body.fid)
+    if (!fid) {
+      return NextResponse.json({ error: "Valid FID required" }, { status: 400, headers: corsHeaders })
+    }
+
+    const session = await getSession(req)
+    if (!session) {
+      return NextResponse.json({ error: "Sign in with Farcaster to refresh your passport" }, { status: 401, headers: corsHeaders })
+    }
+    if (session.fid !== fid) {
+      return NextResponse.json({ error: `Signed in as FID ${session.fid}, not ${fid}` }, { status: 403, headers: corsHeaders })
+    }
+
+    const request = await requestPassportRefresh(fid)
+    if (!request) {
+      return NextResponse.json({ error: "No passport minted for this FID" }, { status: 404, headers: corsHeaders })
+    }
+
+    return NextResponse.json({ request }, { status: 202, headers: corsHeaders })
+  } catch (error) {
+    if (error instanceof RefreshRateLimitError) {
+      return NextResponse.json(
+        { error: error.message, retryAfterSeconds: error.retryAfterSeconds },
+        { status: 429, headers: { ...corsHeaders, "Retry-After": String(error.retryAfterSeconds) } },
+      )
+    }
+    if (error instanceof NeynarApiError) {
+      return NextResponse.json({ error: "Failed to fetch Farcaster data" }, { status: 500, headers: corsHeaders })
+    }
+    console.error("Passport refresh API error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500, headers: corsHeaders })
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 200, headers: corsHeaders })
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { getContractAddress, readPassportByFid } from "@/lib/contract"
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+}
+
+/** The passport minted for `fid`, or `passport: null` when it has none */
+export async function GET(req: Request) {
+  const fid = Number(new URL(req.url).searchParams.get("fid"))
+  if (!Number.isInteger(fid) || fid <= 0) {
+    return NextResponse.json({ error: "Valid FID required" }, { status: 400, headers: corsHeaders })
+  }
+
+  const contractAddress = getContractAddress()
+  if (!contractAddress) {
+    return NextResponse.json({ error: "Contract address not configured" }, { status: 500, headers: corsHeaders })
+  }
+
+  try {
+    const passport = await readPassportByFid(fid)
+    return NextResponse.json({ passport, contractAddress }, { headers: corsHeaders })
+  } catch (error) {
+    console.error("Passport API error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500, headers: corsHeaders })
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 200, headers: corsHeaders })
+}
@@ -0,0 +1,148 @@
+import { NextResponse } from "next/server"
+import { CURRENT_SCORING_VERSION, isScoringVersion } from "@/lib/scoring"
+import { NeynarApiError, fetchUserByUsername, fetchUsersByFid, hasNeynarApiKey } from "@/lib/neynar"
+import { getPassport, getPassportForUser } from "@/lib/passport-service"
+import { mapWithConcurrency } from "@/lib/concurrency"
+import type { NeynarUser, PassportData } from "@/lib/types"
+import type { CacheInfo } from "@/lib/cache"
+
+// Neynar's user/bulk endpoint accepts at most 100 FIDs
+const MAX_BATCH_SIZE = 100
+// Each score fans out to Neynar and every chain's RPC, keep this low
+const SCORE_CONCURRENCY = 5
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+}
+
+interface BatchError {
+  input: number | string
+  error: string
+}
+
+type BatchResult = PassportData & { cache: CacheInfo }
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => null)
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400, headers: corsHeaders })
+    }
+
+    const fids: unknown[] = body.fids || []
+    const usernames: unknown[] = body.usernames || []
+    const version = body.version || CURRENT_SCORING_VERSION
+
+    if (!Array.isArray(fids) || !Array.isArray(usernames)) {
+      return NextResponse.json({ error: "fids and usernames must be arrays" }, { status: 400, headers: corsHeaders })
+    }
+
+    if (fids.length + usernames.length === 0) {
+      return NextResponse.json({ error: "At least one FID or username is required" }, { status: 400, headers: corsHeaders })
+    }
+
+    if (fids.length + usernames.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BATCH_SIZE} FIDs and usernames per request` },
+        { status: 400, headers: corsHeaders },
+      )
+    }
+
+    if (!isScoringVersion(version)) {
+      return NextResponse.json({ error: `Unknown scoring version: ${version}` }, { status: 400, headers: corsHeaders })
+    }
+
+    const errors: BatchError[] = []
+    const validFids = new Set<number>()
+    for (const fid of fids) {
+      if (typeof fid === "number" && Number.isInteger(fid) && fid > 0) {
+        validFids.add(fid)
+      } else {
+        errors.push({ input: String(fid), error: "Invalid FID" })
+      }
+    }
+    const validUsernames = new Set<string>()
+    for (const username of usernames) {
+      if (typeof username === "string" && username.replace(/^@/, "").trim()) {
+        validUsernames.add(username.replace(/^@/, "").trim().toLowerCase())
+      } else {
+        errors.push({ input: String(username), error: "Invalid username" })
+      }
+    }
+
+    const results: BatchResult[] = []
+
+    if (!hasNeynarApiKey()) {
+      // Mock mode: profiles are generated per FID, usernames can't be resolved
+      for (const username of validUsernames) {
+        errors.push({ input: username, error: "Username lookup requires NEYNAR_API_KEY" })
+      }
+      await mapWithConcurrency(Array.from(validFids), SCORE_CONCURRENCY, async (fid) => {
+        const result = await getPassport(fid, version)
+        if (result) results.push({ ...result.passport, cache: result.cache })
+      })
+    } else {
+      const users = new Map<number, NeynarUser>()
+
+      if (validFids.size > 0) {
+        for (const user of await fetchUsersByFid(Array.from(validFids))) {
+          users.set(user.fid, user)
+        }
+        for (const fid of validFids) {
+          if (!users.has(fid)) errors.push({ input: fid, error: "User not found" })
+        }
+      }
+
+      await mapWithConcurrency(Array.from(validUsernames), SCORE_CONCURRENCY, async (username) => {
+        try {
+          const user = await fetchUserByUsername(username)
+          if (user) {
+            users.set(user.fid, user)
+          } else {
+            errors.push({ input: username, error: "User not found" })
+          }
+        } catch (error) {
+          console.error(`Failed to look up ${username}:`, error)
+          errors.push({ input: username, error: "Failed to fetch Farcaster data" })
+        }
+      })
+
+      await mapWithConcurrency(Array.from(users.values()), SCORE_CONCURRENCY, async (user) => {
+        try {
+          const result = await getPassportForUser(user, version)
+          results.push({ ...result.passport, cache: result.cache })
+        } catch (error) {
+          console.error(`Failed to score FID ${user.fid}:`, error)
+          errors.push({ input: user.fid, error: "Failed to compute score" })
+        }
+      })
+    }
+
+    results.sort((a, b) => a.fid - b.fid)
+
+    return NextResponse.json(
+      {
+        scoringVersion: version,
+        count: results.length,
+        results,
+        errors,
+      },
+      { headers: corsHeaders },
+    )
+  } catch (error) {
+    if (error instanceof NeynarApiError) {
+      return NextResponse.json({ error: "Failed to fetch Farcaster data" }, { status: 500, headers: corsHeaders })
+    }
+    console.error("Batch score API error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500, headers: corsHeaders })
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, {
+    status: 200,
+    headers: corsHeaders,
+  })
+}
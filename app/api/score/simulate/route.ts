@@ -0,0 +1,118 @@
+import { NextResponse } from "next/server"
+import { calculateScore, evaluateBadges, isScoringVersion } from "@/lib/scoring"
+import { NeynarApiError } from "@/lib/neynar"
+import { getScoreInputs } from "@/lib/passport-service"
+import type { ScoreCalculationParams } from "@/lib/types"
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+}
+
+const NUMERIC_PARAMS = [
+  "followers",
+  "following",
+  "casts",
+  "ageDays",
+  "txCount",
+  "verifiedAddresses",
+  "engagementRate",
+  "activeDays",
+  "contractsDeployed",
+  "weightedTxCount",
+  "crossChainActiveDays",
+  "crossChainContractsDeployed",
+] as const
+
+function parseOverrides(input: unknown): Partial<ScoreCalculationParams> | string {
+  if (input === undefined || input === null) return {}
+  if (typeof input !== "object" || Array.isArray(input)) return "overrides must be an object"
+
+  const overrides: Partial<ScoreCalculationParams> = {}
+  for (const [key, value] of Object.entries(input)) {
+    if (key === "powerBadge") {
+      if (typeof value !== "boolean") return "powerBadge must be a boolean"
+      overrides.powerBadge = value
+    } else if ((NUMERIC_PARAMS as readonly string[]).includes(key)) {
+      if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+        return `${key} must be a non-negative number`
+      }
+      overrides[key as (typeof NUMERIC_PARAMS)[number]] = value
+    } else {
+      return `Unknown score parameter: ${key}`
+    }
+  }
+  return overrides
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json()
+    const fid = Number.parseInt(body.fid)
+    const version = body.version || undefined
+
+    if (!fid) {
+      return NextResponse.json({ error: "FID required" }, { status: 400, headers: corsHeaders })
+    }
+
+    if (version && !isScoringVersion(version)) {
+      return NextResponse.json({ error: `Unknown scoring version: ${version}` }, { status: 400, headers: corsHeaders })
+    }
+
+    const overrides = parseOverrides(body.overrides)
+    if (typeof overrides === "string") {
+      return NextResponse.json({ error: overrides }, { status: 400, headers: corsHeaders })
+    }
+
+    // Cached per FID, the simulator posts on every slider change
+    const inputs = await getScoreInputs(fid)
+    if (!inputs) {
+      return NextResponse.json({ error: "User not found" }, { status: 404, headers: corsHeaders })
+    }
+
+    const currentParams = inputs.params
+    const projectedParams = { ...currentParams, ...overrides }
+    const current = calculateScore(currentParams, version)
+    const projected = calculateScore(projectedParams, version)
+    const currentBadges = evaluateBadges(currentParams)
+    const projectedBadges = evaluateBadges(projectedParams)
+
+    return NextResponse.json(
+      {
+        fid,
+        username: inputs.username,
+        scoringVersion: projected.version,
+        overrides,
+        current: {
+          score: current.score,
+          badge: currentBadges.primary,
+          badges: currentBadges.badges,
+          params: currentParams,
+        },
+        projected: {
+          score: projected.score,
+          badge: projectedBadges.primary,
+          badges: projectedBadges.badges,
+          breakdown: projected.breakdown,
+          params: projectedParams,
+        },
+        delta: projected.score - current.score,
+      },
+      { headers: corsHeaders },
+    )
+  } catch (error) {
+    if (error instanceof NeynarApiError) {
+      return NextResponse.json({ error: "Failed to fetch Farcaster data" }, { status: 500, headers: corsHeaders })
+    }
+    console.error("Score simulation error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500, headers: corsHeaders })
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, {
+    status: 200,
+    headers: corsHeaders,
+  })
+}
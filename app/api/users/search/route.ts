@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+import { NeynarApiError, hasNeynarApiKey, searchUsers } from "@/lib/neynar"
+
+const headers = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+}
+
+// Username autocomplete for the passport generator
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url)
+  const query = searchParams.get("q")?.replace(/^@/, "").trim()
+  const limit = Math.min(Number.parseInt(searchParams.get("limit") || "5") || 5, 10)
+
+  if (!query || query.length < 2) {
+    return NextResponse.json({ users: [] }, { headers })
+  }
+
+  // Search needs Neynar, mock mode has nothing to suggest
+  if (!hasNeynarApiKey()) {
+    return NextResponse.json({ users: [] }, { headers })
+  }
+
+  try {
+    const users = await searchUsers(query, limit)
+    return NextResponse.json(
+      {
+        users: users.map((user) => ({
+          fid: user.fid,
+          username: user.username,
+          displayName: user.display_name || user.username,
+          pfpUrl: user.pfp_url || `https://api.dicebear.com/7.x/avataaars/svg?seed=${user.fid}`,
+        })),
+      },
+      { headers: { ...headers, "Cache-Control": "public, max-age=60" } },
+    )
+  } catch (error) {
+    if (error instanceof NeynarApiError) {
+      return NextResponse.json({ error: "Failed to fetch Farcaster data" }, { status: 500, headers })
+    }
+    console.error("User search error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500, headers })
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, {
+    status: 200,
+    headers,
+  })
+}
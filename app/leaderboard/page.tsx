@@ -0,0 +1,42 @@
+import type { Metadata } from "next"
+import Link from "next/link"
+import { Leaderboard } from "@/components/leaderboard"
+import { ThemeToggle } from "@/components/theme-toggle"
+import { ArrowLeft } from "lucide-react"
+
+export const metadata: Metadata = {
+  title: "Leaderboard - Farcaster Reputation Passport",
+  description: "Top Farcaster reputation holders with a minted passport on Base",
+}
+
+export default function LeaderboardPage() {
+  return (
+    <main className="relative min-h-screen overflow-hidden bg-gradient-to-br from-violet-100 via-fuchsia-100 to-cyan-100 dark:from-gray-950 dark:via-purple-950 dark:to-indigo-950">
+      <div className="absolute top-4 right-4 z-10">
+        <ThemeToggle />
+      </div>
+
+      <div className="relative container mx-auto px-4 py-16">
+        <div className="max-w-4xl mx-auto space-y-8">
+          <div className="space-y-4 text-center animate-fade-in">
+            <Link
+              href="/"
+              className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to passport
+            </Link>
+            <h1 className="text-5xl md:text-6xl font-bold text-balance bg-gradient-to-r from-purple-600 via-pink-600 to-blue-600 bg-clip-text text-transparent">
+              Leaderboard
+            </h1>
+            <p className="text-xl text-muted-foreground text-balance max-w-2xl mx-auto">
+              Top reputation holders with a minted passport
+            </p>
+          </div>
+
+          <Leaderboard />
+        </div>
+      </div>
+    </main>
+  )
+}
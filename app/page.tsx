@@ -1,12 +1,13 @@
 "use client"
 
+import Link from "next/link"
 import { PassportGenerator } from "@/components/passport-generator"
 import { ThemeToggle } from "@/components/theme-toggle"
 import { TransactionSender, TransactionHistory } from "@/components/wallet-connection"
 import { TransactionTracker } from "@/components/transaction-tracker"
 import { useAccount, useConnect, useDisconnect } from 'wagmi'
 import { Button } from "@/components/ui/button"
-import { Wallet, LogOut, ChevronDown, Send, History, BarChart3 } from "lucide-react"
+import { Wallet, LogOut, ChevronDown, Send, History, BarChart3, Trophy } from "lucide-react"
 import { useState, useRef, useEffect } from "react"
 
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
@@ -178,6 +179,12 @@ export default function Home() {
       </div>
 
       <div className="absolute top-4 right-4 z-10 flex items-center gap-3">
+        <Button asChild variant="outline" className="bg-white/80 dark:bg-gray-900/80 backdrop-blur-md">
+          <Link href="/leaderboard">
+            <Trophy className="h-4 w-4 mr-2" />
+            Leaderboard
+          </Link>
+        </Button>
         <WalletDropdown />
         <ThemeToggle />
       </div>
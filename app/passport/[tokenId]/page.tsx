@@ -0,0 +1,31 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import { PassportProfile } from "@/components/passport-profile"
+import { buildProfileMetadata, getProfileByTokenId } from "@/lib/passport-profile"
+
+// The indexer's SQLite store is a native module
+export const runtime = "nodejs"
+export const revalidate = 300
+
+interface PassportPageProps {
+  params: Promise<{ tokenId: string }>
+}
+
+function parseTokenId(value: string): number | null {
+  const tokenId = Number(value)
+  return Number.isInteger(tokenId) && tokenId > 0 ? tokenId : null
+}
+
+export async function generateMetadata({ params }: PassportPageProps): Promise<Metadata> {
+  const tokenId = parseTokenId((await params).tokenId)
+  const profile = tokenId ? await getProfileByTokenId(tokenId) : null
+  return profile ? buildProfileMetadata(profile) : { title: "Passport not found - Farcaster Reputation Passport" }
+}
+
+export default async function PassportPage({ params }: PassportPageProps) {
+  const tokenId = parseTokenId((await params).tokenId)
+  const profile = tokenId ? await getProfileByTokenId(tokenId) : null
+  if (!profile) notFound()
+
+  return <PassportProfile profile={profile} />
+}
@@ -0,0 +1,24 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import { PassportProfile } from "@/components/passport-profile"
+import { buildProfileMetadata, getProfileByUsername } from "@/lib/passport-profile"
+
+// The indexer's SQLite store is a native module
+export const runtime = "nodejs"
+export const revalidate = 300
+
+interface UserPageProps {
+  params: Promise<{ username: string }>
+}
+
+export async function generateMetadata({ params }: UserPageProps): Promise<Metadata> {
+  const profile = await getProfileByUsername(decodeURIComponent((await params).username))
+  return profile ? buildProfileMetadata(profile) : { title: "User not found - Farcaster Reputation Passport" }
+}
+
+export default async function UserPage({ params }: UserPageProps) {
+  const profile = await getProfileByUsername(decodeURIComponent((await params).username))
+  if (!profile) notFound()
+
+  return <PassportProfile profile={profile} />
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import Link from "next/link"
+import type { OnchainPassport } from "@/lib/contract"
+import { CheckCircle, ExternalLink } from "lucide-react"
+
+interface ExistingPassportProps {
+  onchain: OnchainPassport
+  contractAddress: string
+}
+
+function formatTimestamp(seconds: number) {
+  return new Date(seconds * 1000).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" })
+}
+
+export function ExistingPassport({ onchain, contractAddress }: ExistingPassportProps) {
+  return (
+    <div className="p-3 bg-white/10 border border-white/20 rounded-lg space-y-3">
+      <div className="flex items-center gap-2">
+        <CheckCircle className="h-4 w-4 text-green-300" />
+        <p className="text-sm font-semibold">Passport #{onchain.tokenId} already minted</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div className="bg-white/5 rounded-lg p-2">
+          <p className="text-xs text-white/60">On-chain score</p>
+          <p className="font-bold">{onchain.score}</p>
+        </div>
+        <div className="bg-white/5 rounded-lg p-2">
+          <p className="text-xs text-white/60">Badge</p>
+          <p className="font-bold">{onchain.badge}</p>
+        </div>
+        <div className="bg-white/5 rounded-lg p-2">
+          <p className="text-xs text-white/60">Minted</p>
+          <p className="font-medium">{formatTimestamp(onchain.mintedAt)}</p>
+        </div>
+        <div className="bg-white/5 rounded-lg p-2">
+          <p className="text-xs text-white/60">Last update</p>
+          <p className="font-medium">{formatTimestamp(onchain.lastUpdated)}</p>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Link href={`/passport/${onchain.tokenId}`} className="text-xs text-white/80 underline hover:text-white">
+          View public profile
+        </Link>
+        <a
+          href={`https://basescan.org/nft/${contractAddress}/${onchain.tokenId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 text-xs text-white/80 underline hover:text-white"
+        >
+          View token on BaseScan
+          <ExternalLink className="h-3 w-3" />
+        </a>
+      </div>
+    </div>
+  )
+}
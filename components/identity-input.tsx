@@ -0,0 +1,135 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Input } from "@/components/ui/input"
+
+interface UserSuggestion {
+  fid: number
+  username: string
+  displayName: string
+  pfpUrl: string
+}
+
+interface IdentityInputProps {
+  value: string
+  onChange: (value: string) => void
+  onSubmit: (value: string) => void
+  disabled?: boolean
+}
+
+// Only plain usernames are worth suggesting for
+function shouldSuggest(value: string) {
+  const query = value.replace(/^@/, "").trim()
+  return query.length >= 2 && !/^\d+$/.test(query) && !query.startsWith("0x") && !query.endsWith(".eth")
+}
+
+export function IdentityInput({ value, onChange, onSubmit, disabled }: IdentityInputProps) {
+  const [suggestions, setSuggestions] = useState<UserSuggestion[]>([])
+  const [isOpen, setIsOpen] = useState(false)
+  const [highlighted, setHighlighted] = useState(-1)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!shouldSuggest(value)) {
+      setSuggestions([])
+      return
+    }
+
+    const controller = new AbortController()
+    const timeout = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/users/search?q=${encodeURIComponent(value)}`, { signal: controller.signal })
+        const data = await res.json()
+        setSuggestions(data.users || [])
+        setHighlighted(-1)
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error("User search error:", err)
+        }
+      }
+    }, 250)
+
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [value])
+
+  // Close suggestions when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside)
+    return () => document.removeEventListener("mousedown", handleClickOutside)
+  }, [])
+
+  const select = (suggestion: UserSuggestion) => {
+    const next = `@${suggestion.username}`
+    onChange(next)
+    setIsOpen(false)
+    setSuggestions([])
+    onSubmit(next)
+  }
+
+  const showSuggestions = isOpen && suggestions.length > 0
+
+  return (
+    <div className="relative flex-1" ref={containerRef}>
+      <Input
+        type="text"
+        placeholder="FID, @username, wallet address or ENS / Basename"
+        value={value}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+          onChange(e.target.value)
+          setIsOpen(true)
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+          if (showSuggestions && e.key === "ArrowDown") {
+            e.preventDefault()
+            setHighlighted((highlighted + 1) % suggestions.length)
+          } else if (showSuggestions && e.key === "ArrowUp") {
+            e.preventDefault()
+            setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length)
+          } else if (e.key === "Escape") {
+            setIsOpen(false)
+          } else if (e.key === "Enter") {
+            if (showSuggestions && highlighted >= 0) {
+              select(suggestions[highlighted])
+            } else {
+              setIsOpen(false)
+              onSubmit(value)
+            }
+          }
+        }}
+        className="bg-white/80 dark:bg-gray-800/80"
+        disabled={disabled}
+        autoComplete="off"
+      />
+      {showSuggestions && (
+        <ul className="absolute left-0 right-0 mt-1 bg-white dark:bg-gray-900 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700 z-50 overflow-hidden text-left">
+          {suggestions.map((suggestion, index) => (
+            <li key={suggestion.fid}>
+              <button
+                type="button"
+                className={`w-full flex items-center gap-3 px-3 py-2 hover:bg-purple-50 dark:hover:bg-purple-950/50 ${
+                  index === highlighted ? "bg-purple-50 dark:bg-purple-950/50" : ""
+                }`}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => select(suggestion)}
+              >
+                <img src={suggestion.pfpUrl} alt={suggestion.displayName} className="w-6 h-6 rounded-full" />
+                <span className="text-sm font-medium">{suggestion.displayName}</span>
+                <span className="text-xs text-muted-foreground">@{suggestion.username}</span>
+                <span className="ml-auto text-xs text-muted-foreground">FID {suggestion.fid}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
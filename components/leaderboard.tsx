@@ -0,0 +1,257 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Spinner } from "@/components/ui/spinner"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import { BADGE_COLORS, getBadgeGradient } from "@/lib/badge-colors"
+import type { Leaderboard as LeaderboardData, LeaderboardEntry } from "@/lib/leaderboard"
+import { AlertCircle } from "lucide-react"
+
+const PAGE_SIZE = 25
+
+const MINT_PERIODS = {
+  all: { label: "All time", days: null },
+  week: { label: "Last 7 days", days: 7 },
+  month: { label: "Last 30 days", days: 30 },
+  quarter: { label: "Last 90 days", days: 90 },
+} as const
+
+type MintPeriod = keyof typeof MINT_PERIODS
+
+function formatDate(seconds: number) {
+  return new Date(seconds * 1000).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" })
+}
+
+/** Page numbers to show: first, last and the current page's neighbours, null for gaps */
+function getPageNumbers(page: number, totalPages: number): (number | null)[] {
+  const pages: (number | null)[] = []
+  for (let p = 1; p <= totalPages; p++) {
+    if (p === 1 || p === totalPages || Math.abs(p - page) <= 1) {
+      pages.push(p)
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null)
+    }
+  }
+  return pages
+}
+
+function LeaderboardRow({ entry, isViewer }: { entry: LeaderboardEntry; isViewer: boolean }) {
+  return (
+    <TableRow className={isViewer ? "bg-purple-500/15 hover:bg-purple-500/20 font-medium" : undefined}>
+      <TableCell className="font-bold">#{entry.rank}</TableCell>
+      <TableCell>
+        <div className="flex items-center gap-2">
+          {entry.pfpUrl && <img src={entry.pfpUrl} alt="" className="h-6 w-6 rounded-full object-cover" />}
+          <div className="text-left">
+            <p>
+              {entry.displayName || `FID ${entry.fid}`}
+              {isViewer && <span className="ml-2 text-xs text-purple-600 dark:text-purple-300">(you)</span>}
+            </p>
+            {entry.username && <p className="text-xs text-muted-foreground">@{entry.username}</p>}
+          </div>
+        </div>
+      </TableCell>
+      <TableCell className="text-right font-bold">{entry.score}</TableCell>
+      <TableCell>
+        <Badge className={`${getBadgeGradient(entry.badge)} text-white text-xs`}>{entry.badge}</Badge>
+      </TableCell>
+      <TableCell className="text-muted-foreground">{formatDate(entry.mintedAt)}</TableCell>
+    </TableRow>
+  )
+}
+
+export function Leaderboard() {
+  const [badge, setBadge] = useState("all")
+  const [period, setPeriod] = useState<MintPeriod>("all")
+  const [page, setPage] = useState(1)
+  const [data, setData] = useState<LeaderboardData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState("")
+  const [unavailable, setUnavailable] = useState(false)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) })
+    if (badge !== "all") params.set("badge", badge)
+    const days = MINT_PERIODS[period].days
+    if (days) params.set("mintedFrom", String(Math.floor(Date.now() / 1000) - days * 24 * 60 * 60))
+
+    setLoading(true)
+    setError("")
+    fetch(`/api/leaderboard?${params}`, { signal: controller.signal })
+      .then((res) => res.json())
+      .then((result) => {
+        if (result.code === "INDEXER_UNAVAILABLE") {
+          setUnavailable(true)
+          return
+        }
+        if (result.error) {
+          setError(result.error)
+          return
+        }
+        setData(result)
+      })
+      .catch((err) => {
+        if (err.name === "AbortError") return
+        console.error("Leaderboard error:", err)
+        setError("Failed to load the leaderboard. Please try again.")
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [badge, period, page])
+
+  const totalPages = data ? Math.max(Math.ceil(data.total / data.pageSize), 1) : 1
+  const viewer = data?.viewer ?? null
+  const viewerOnPage = viewer ? data?.entries.some((entry) => entry.tokenId === viewer.tokenId) : false
+
+  const goTo = (target: number) => (event: React.MouseEvent) => {
+    event.preventDefault()
+    if (target >= 1 && target <= totalPages && target !== page) setPage(target)
+  }
+
+  // Filters and pages can't help without an index, so the table is replaced rather than emptied
+  if (unavailable) {
+    return (
+      <Card className="p-6 bg-white/80 dark:bg-gray-900/80 backdrop-blur-md text-center space-y-2">
+        <p className="font-medium">The leaderboard isn&apos;t available right now</p>
+        <p className="text-sm text-muted-foreground">Passport pages and minting still work in the meantime.</p>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="p-6 bg-white/80 dark:bg-gray-900/80 backdrop-blur-md space-y-4">
+      <div className="flex flex-col md:flex-row gap-3 md:items-center md:justify-between">
+        <Tabs
+          value={badge}
+          onValueChange={(value) => {
+            setBadge(value)
+            setPage(1)
+          }}
+        >
+          <TabsList className="flex-wrap h-auto">
+            <TabsTrigger value="all">All</TabsTrigger>
+            {Object.keys(BADGE_COLORS).map((name) => (
+              <TabsTrigger key={name} value={name}>
+                {name}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <Select
+          value={period}
+          onValueChange={(value) => {
+            setPeriod(value as MintPeriod)
+            setPage(1)
+          }}
+        >
+          <SelectTrigger className="w-full md:w-40" aria-label="Minted">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(MINT_PERIODS).map(([value, { label }]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {viewer && !viewerOnPage && (
+        <div className="flex items-center justify-between p-3 rounded-lg bg-purple-500/15 text-sm">
+          <span>
+            You're <span className="font-bold">#{viewer.rank}</span> with passport #{viewer.tokenId}
+          </span>
+          <button
+            className="text-xs underline text-purple-600 dark:text-purple-300"
+            onClick={() => setPage(Math.ceil(viewer.rank / PAGE_SIZE))}
+          >
+            Jump to my rank
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 text-sm text-red-600 dark:text-red-300">
+          <AlertCircle className="h-4 w-4" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="relative">
+        {loading && (
+          <div className="absolute inset-0 flex items-center justify-center bg-white/50 dark:bg-gray-900/50 rounded-lg z-10">
+            <Spinner />
+          </div>
+        )}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">Rank</TableHead>
+              <TableHead>User</TableHead>
+              <TableHead className="text-right">Score</TableHead>
+              <TableHead>Badge</TableHead>
+              <TableHead>Minted</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data?.entries.map((entry) => (
+              <LeaderboardRow key={entry.tokenId} entry={entry} isViewer={entry.tokenId === viewer?.tokenId} />
+            ))}
+            {data && data.entries.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                  No passports match these filters yet
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {totalPages > 1 && (
+        <Pagination>
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious href="#" onClick={goTo(page - 1)} aria-disabled={page === 1} />
+            </PaginationItem>
+            {getPageNumbers(page, totalPages).map((p, index) =>
+              p === null ? (
+                <PaginationItem key={`gap-${index}`}>
+                  <PaginationEllipsis />
+                </PaginationItem>
+              ) : (
+                <PaginationItem key={p}>
+                  <PaginationLink href="#" onClick={goTo(p)} isActive={p === page}>
+                    {p}
+                  </PaginationLink>
+                </PaginationItem>
+              ),
+            )}
+            <PaginationItem>
+              <PaginationNext href="#" onClick={goTo(page + 1)} aria-disabled={page === totalPages} />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,159 @@
+import type React from "react"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { ScoreBreakdown } from "@/components/score-breakdown"
+import { getBadgeGradient } from "@/lib/badge-colors"
+import type { ScoreContribution } from "@/lib/scoring"
+import type { OnchainActivity } from "@/lib/onchain"
+import type { CacheInfo } from "@/lib/cache"
+
+/** A scored passport as returned by `/api/score` */
+export interface PassportCardData {
+  fid: number
+  username: string
+  displayName: string
+  pfpUrl: string
+  bio: string
+  score: number
+  scoringVersion: string
+  breakdown?: ScoreContribution[]
+  badge: string
+  badges?: string[]
+  custody: string
+  followers: number
+  following: number
+  casts: number
+  ageDays: number
+  txCount: number
+  powerBadge: boolean
+  verifiedAddresses: string[]
+  engagementRate: number
+  onchain?: OnchainActivity
+  cache?: CacheInfo
+}
+
+interface PassportCardProps {
+  passport: PassportCardData
+  /** Actions rendered at the bottom of the card */
+  children?: React.ReactNode
+}
+
+function getScoreColor(score: number) {
+  if (score >= 800) return "text-green-400"
+  if (score >= 600) return "text-blue-400"
+  if (score >= 400) return "text-yellow-400"
+  return "text-gray-400"
+}
+
+export function PassportCard({ passport, children }: PassportCardProps) {
+  return (
+    <Card className="p-8 bg-gradient-to-br from-purple-600 via-blue-600 to-indigo-700 text-white shadow-2xl border-0 animate-fade-in-scale overflow-hidden relative">
+      {/* Background pattern */}
+      <div className="absolute inset-0 opacity-10">
+        <div
+          className="absolute inset-0"
+          style={{
+            backgroundImage: "radial-gradient(circle at 20px 20px, white 1px, transparent 0)",
+            backgroundSize: "40px 40px",
+          }}
+        ></div>
+      </div>
+
+      <div className="relative space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-start gap-4 flex-1">
+            {passport.pfpUrl && (
+              <img
+                src={passport.pfpUrl || "/placeholder.svg"}
+                alt={passport.displayName}
+                className="w-16 h-16 rounded-full border-2 border-white/50 shadow-lg"
+              />
+            )}
+            <div className="flex-1">
+              <div className="flex items-center gap-2">
+                <h2 className="text-3xl font-bold">{passport.displayName}</h2>
+                {passport.powerBadge && <Badge className="bg-yellow-500 text-white text-xs">⚡ Power</Badge>}
+              </div>
+              <p className="text-white/80">@{passport.username}</p>
+              <p className="text-sm text-white/60">FID: {passport.fid}</p>
+              {passport.bio && <p className="text-sm text-white/80 mt-2 line-clamp-2">{passport.bio}</p>}
+            </div>
+          </div>
+          <div className="flex flex-col items-end gap-1">
+            <Badge
+              className={`${getBadgeGradient(passport.badge)} text-white px-3 py-1 text-sm font-semibold shadow-lg`}
+            >
+              {passport.badge}
+            </Badge>
+            {passport.badges
+              ?.filter((badge) => badge !== passport.badge)
+              .map((badge) => (
+                <Badge key={badge} className={`${getBadgeGradient(badge)} text-white text-xs opacity-80`}>
+                  {badge}
+                </Badge>
+              ))}
+          </div>
+        </div>
+
+        <div className={`grid gap-4 ${passport.breakdown ? "md:grid-cols-2" : ""}`}>
+          <div className="py-8 border-y border-white/20 bg-white/5 rounded-xl flex flex-col justify-center">
+            <div className={`text-7xl font-bold text-center ${getScoreColor(passport.score)} drop-shadow-lg`}>
+              {passport.score}
+            </div>
+            <p className="text-center text-white/80 mt-2 text-lg font-medium">Reputation Score</p>
+            <p className="text-center text-white/60 text-sm mt-1">
+              {passport.engagementRate.toFixed(1)} reactions per cast
+            </p>
+            {passport.cache && passport.cache.ageSeconds >= 60 && (
+              <p className="text-center text-white/40 text-xs mt-1">
+                Scored {Math.floor(passport.cache.ageSeconds / 60)} min ago
+                {passport.cache.status === "stale" && ", refreshing"}
+              </p>
+            )}
+          </div>
+          {passport.breakdown && <ScoreBreakdown breakdown={passport.breakdown} score={passport.score} />}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="bg-white/10 rounded-lg p-3 backdrop-blur-sm">
+            <p className="text-xs text-white/60 mb-1">Followers</p>
+            <p className="text-2xl font-bold">{passport.followers.toLocaleString()}</p>
+          </div>
+          <div className="bg-white/10 rounded-lg p-3 backdrop-blur-sm">
+            <p className="text-xs text-white/60 mb-1">Following</p>
+            <p className="text-2xl font-bold">{passport.following.toLocaleString()}</p>
+          </div>
+          <div className="bg-white/10 rounded-lg p-3 backdrop-blur-sm">
+            <p className="text-xs text-white/60 mb-1">Casts</p>
+            <p className="text-2xl font-bold">{passport.casts.toLocaleString()}</p>
+          </div>
+          <div className="bg-white/10 rounded-lg p-3 backdrop-blur-sm">
+            <p className="text-xs text-white/60 mb-1">Transactions</p>
+            <p className="text-2xl font-bold">{passport.txCount.toLocaleString()}</p>
+          </div>
+        </div>
+
+        {passport.onchain && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {passport.onchain.chains.map((chain) => (
+                <div key={chain.chain} className="bg-white/5 rounded-lg px-3 py-2">
+                  <p className="text-xs text-white/60">{chain.name}</p>
+                  <p className="text-sm font-semibold">{chain.txCount.toLocaleString()} txs</p>
+                  <p className="text-xs text-white/50">{chain.activeDays} active days</p>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-white/60 text-center">
+              Across {passport.onchain.addresses.length} address
+              {passport.onchain.addresses.length === 1 ? "" : "es"} · {passport.onchain.activeDays} active days ·{" "}
+              {passport.onchain.contractsDeployed} contracts deployed
+            </p>
+          </div>
+        )}
+
+        {children}
+      </div>
+    </Card>
+  )
+}
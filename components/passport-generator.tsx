@@ -1,61 +1,137 @@
 "use client"
 
-import { useState } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
-import { Input } from "@/components/ui/input"
-import { Badge } from "@/components/ui/badge"
 import { Spinner } from "@/components/ui/spinner"
-import { useAccount, useWriteContract } from "wagmi"
+import { ScoreSimulator } from "@/components/score-simulator"
+import { PassportCard, type PassportCardData } from "@/components/passport-card"
+import { IdentityInput } from "@/components/identity-input"
+import { PassportRefresh } from "@/components/passport-refresh"
+import { ExistingPassport } from "@/components/existing-passport"
+import { useFarcasterSession } from "@/hooks/use-farcaster-session"
+import { useTransactionStatus } from "@/hooks/use-transactions"
+import { useAccount, usePublicClient, useWriteContract } from "wagmi"
+import { formatEther, parseEventLogs, type Hash } from "viem"
 import { REPUTATION_PASSPORT_ABI } from "@/lib/contract-abi"
+import { describeContractError, getTransactionRevertReason } from "@/lib/contract-errors"
+import { deserializeMintVoucher, preflightMint, type SerializedMintVoucher } from "@/lib/mint-voucher"
+import type { OnchainPassport } from "@/lib/contract"
+import type { ScoreCalculationParams } from "@/lib/types"
 import { CheckCircle, AlertCircle, Wallet } from "lucide-react"
 
-interface PassportData {
-  fid: number
-  username: string
-  displayName: string
-  pfpUrl: string
-  bio: string
-  score: number
-  badge: string
-  custody: string
-  followers: number
-  following: number
-  casts: number
-  ageDays: number
-  txCount: number
-  powerBadge: boolean
-  verifiedAddresses: string[]
-  engagementRate: number
-}
-
 export function PassportGenerator() {
-  const [fid, setFid] = useState("")
+  const [query, setQuery] = useState("")
   const [loading, setLoading] = useState(false)
-  const [passport, setPassport] = useState<PassportData | null>(null)
+  const [passport, setPassport] = useState<PassportCardData | null>(null)
   const [error, setError] = useState("")
   const [minting, setMinting] = useState(false)
   const [mintError, setMintError] = useState("")
-  const [txHash, setTxHash] = useState<string | null>(null)
-  const [mintSuccess, setMintSuccess] = useState(false)
+  const [txHash, setTxHash] = useState<Hash | null>(null)
+  const [mintedTokenId, setMintedTokenId] = useState<number | null>(null)
+  const [mintEstimate, setMintEstimate] = useState<{ gas: bigint; feeWei: bigint } | null>(null)
+  const [showSimulator, setShowSimulator] = useState(false)
+  const [onchainPassport, setOnchainPassport] = useState<OnchainPassport | null>(null)
+  const [checkingOnchain, setCheckingOnchain] = useState(false)
+  const [passportContract, setPassportContract] = useState("")
   
   const { isConnected, address } = useAccount()
   const { writeContractAsync } = useWriteContract()
+  const publicClient = usePublicClient()
+  const txStatus = useTransactionStatus(txHash ?? undefined)
+  // `failed` means the receipt couldn't be fetched (RPC error or timeout), the transaction may still land
+  const mintStatus = !txHash
+    ? "idle"
+    : txStatus.isSuccess
+      ? "confirmed"
+      : txStatus.isFailure
+        ? "reverted"
+        : txStatus.error
+          ? "failed"
+          : "pending"
+  const session = useFarcasterSession()
+  const autoFilled = useRef(false)
+
+  const scoreParams = useMemo<ScoreCalculationParams | null>(() => {
+    if (!passport) return null
+    const base = passport.onchain?.chains.find((chain) => chain.chain === "base")
+    return {
+      followers: passport.followers,
+      following: passport.following,
+      casts: passport.casts,
+      ageDays: passport.ageDays,
+      txCount: passport.txCount,
+      powerBadge: passport.powerBadge,
+      verifiedAddresses: passport.verifiedAddresses.length,
+      engagementRate: passport.engagementRate,
+      activeDays: base?.activeDays,
+      contractsDeployed: base?.contractsDeployed,
+      weightedTxCount: passport.onchain?.txCount,
+      crossChainActiveDays: passport.onchain?.activeDays,
+      crossChainContractsDeployed: passport.onchain?.contractsDeployed,
+    }
+  }, [passport])
+
+  // Mirrors the /api/mint ownership check so an unlinked wallet isn't offered the mint
+  const walletLinked = useMemo(() => {
+    if (!passport || !address) return false
+    if (session.user?.fid === passport.fid) return true
+    const linked = [passport.custody, ...passport.verifiedAddresses].map((addr) => addr.toLowerCase())
+    return linked.includes(address.toLowerCase())
+  }, [passport, address, session.user])
+
+  // Looks up an already minted passport for the FID (fidToToken + getPassportByFID)
+  const loadOnchainPassport = useCallback(async (fid: number) => {
+    setCheckingOnchain(true)
+    try {
+      const res = await fetch(`/api/passport?fid=${fid}`)
+      const data = await res.json()
+      if (!data.error) {
+        setOnchainPassport(data.passport)
+        setPassportContract(data.contractAddress)
+      }
+    } catch (err) {
+      console.error("On-chain passport error:", err)
+    } finally {
+      setCheckingOnchain(false)
+    }
+  }, [])
+
+  // Once the mint is mined, read the token ID from PassportMinted or recover the revert reason
+  useEffect(() => {
+    const receipt = txStatus.receipt
+    if (!receipt || !txHash || !passport) return
 
-  const generatePassport = async () => {
-    if (!fid) {
-      setError("Please enter a FID")
+    if (receipt.status === "success") {
+      const [minted] = parseEventLogs({ abi: REPUTATION_PASSPORT_ABI, eventName: "PassportMinted", logs: receipt.logs })
+      if (minted) setMintedTokenId(Number(minted.args.tokenId))
+      loadOnchainPassport(passport.fid)
+      return
+    }
+
+    setMintError("Transaction reverted")
+    if (publicClient) {
+      getTransactionRevertReason(publicClient, txHash)
+        .then((reason) => reason && setMintError(`Transaction reverted: ${reason}`))
+        .catch((err) => console.error("Revert reason error:", err))
+    }
+  }, [txStatus.receipt, txHash, passport, publicClient, loadOnchainPassport])
+
+  const generatePassport = useCallback(async (input: string = query) => {
+    if (!input.trim()) {
+      setError("Please enter a FID, username or address")
       return
     }
 
     setLoading(true)
     setError("")
-    setMintSuccess(false)
     setMintError("")
     setTxHash(null)
+    setMintedTokenId(null)
+    setOnchainPassport(null)
 
     try {
-      const res = await fetch(`/api/score?fid=${fid}`)
+      const res = await fetch(`/api/score?q=${encodeURIComponent(input.trim())}`)
       const data = await res.json()
 
       if (data.error) {
@@ -64,13 +140,23 @@ export function PassportGenerator() {
       }
 
       setPassport(data)
+      loadOnchainPassport(data.fid)
     } catch (err) {
       setError("Failed to generate passport. Please try again.")
       console.error("Generate error:", err)
     } finally {
       setLoading(false)
     }
-  }
+  }, [query, loadOnchainPassport])
+
+  // Signed-in viewers see their own passport without typing their FID
+  useEffect(() => {
+    if (!session.user || autoFilled.current || query) return
+    autoFilled.current = true
+    const fid = String(session.user.fid)
+    setQuery(fid)
+    generatePassport(fid)
+  }, [session.user, query, generatePassport])
 
   const handleMint = async () => {
     if (!passport || !isConnected || !address) {
@@ -87,58 +173,59 @@ export function PassportGenerator() {
     setMinting(true)
     setMintError("")
     setTxHash(null)
-    setMintSuccess(false)
+    setMintedTokenId(null)
+    setMintEstimate(null)
 
     try {
-      console.log("Minting passport with:", {
-        to: address,
-        fid: passport.fid,
-        score: passport.score,
-        badge: passport.badge,
-        contractAddress
+      // The server recomputes the score and signs a voucher, so the mint can't be spoofed
+      const res = await fetch("/api/mint", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fid: passport.fid, to: address }),
       })
+      const data = await res.json()
+
+      if (data.error) {
+        setMintError(data.error)
+        if (data.code === "ALREADY_MINTED") loadOnchainPassport(passport.fid)
+        return
+      }
+
+      const voucher = deserializeMintVoucher(data.voucher as SerializedMintVoucher)
+      setMintEstimate({ gas: BigInt(data.transaction.estimatedGas), feeWei: BigInt(data.transaction.estimatedFeeWei) })
+
+      // Re-simulate through the app's Base transport right before prompting, state may have moved since /api/mint
+      if (publicClient) {
+        const preflight = await preflightMint(publicClient, {
+          contractAddress: contractAddress as `0x${string}`,
+          voucher,
+          signature: data.signature,
+          account: address,
+        })
+        if (!preflight.ok) {
+          setMintError(preflight.error)
+          return
+        }
+        setMintEstimate({ gas: preflight.gas, feeWei: preflight.feeWei })
+      }
 
       const txHash = await writeContractAsync({
         address: contractAddress as `0x${string}`,
         abi: REPUTATION_PASSPORT_ABI,
-        functionName: "mintPassport",
-        args: [address, BigInt(passport.fid), BigInt(passport.score), passport.badge],
+        functionName: "mintPassportWithVoucher",
+        args: [voucher, data.signature],
       })
 
       setTxHash(txHash)
-      setMintSuccess(true)
       console.log("Transaction sent:", txHash)
     } catch (err) {
       console.error("Mint error:", err)
-      const errorMessage = err instanceof Error ? err.message : "Failed to mint passport"
-      setMintError(errorMessage)
+      setMintError(describeContractError(err))
     } finally {
       setMinting(false)
     }
   }
 
-  const getBadgeColor = (badge: string) => {
-    switch (badge) {
-      case "OG":
-        return "bg-gradient-to-r from-yellow-500 to-orange-500"
-      case "Onchain":
-        return "bg-gradient-to-r from-blue-500 to-cyan-500"
-      case "Active":
-        return "bg-gradient-to-r from-green-500 to-emerald-500"
-      case "Builder":
-        return "bg-gradient-to-r from-purple-500 to-pink-500"
-      default:
-        return "bg-gradient-to-r from-gray-500 to-slate-500"
-    }
-  }
-
-  const getScoreColor = (score: number) => {
-    if (score >= 800) return "text-green-400"
-    if (score >= 600) return "text-blue-400"
-    if (score >= 400) return "text-yellow-400"
-    return "text-gray-400"
-  }
-
   const formatAddress = (addr: string) => {
     return `${addr.slice(0, 6)}...${addr.slice(-4)}`
   }
@@ -148,21 +235,9 @@ export function PassportGenerator() {
       <Card className="p-6 bg-white/90 dark:bg-gray-900/90 backdrop-blur-md border-purple-200/50 dark:border-purple-800/50 shadow-xl">
         <div className="space-y-4">
           <div className="flex gap-2">
-            <Input
-              type="number"
-              placeholder="Enter your Farcaster ID (FID)"
-              value={fid}
-              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFid(e.target.value)}
-              onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
-                if (e.key === "Enter") {
-                  generatePassport()
-                }
-              }}
-              className="flex-1 bg-white/80 dark:bg-gray-800/80"
-              disabled={loading}
-            />
+            <IdentityInput value={query} onChange={setQuery} onSubmit={generatePassport} disabled={loading} />
             <Button
-              onClick={generatePassport}
+              onClick={() => generatePassport()}
               disabled={loading}
               className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 transition-all duration-300"
             >
@@ -176,13 +251,35 @@ export function PassportGenerator() {
               )}
             </Button>
           </div>
+          {isConnected && !session.isLoading && (
+            <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+              {session.user ? (
+                <>
+                  <span>Signed in as FID {session.user.fid}</span>
+                  <Button variant="ghost" size="sm" onClick={session.signOut}>
+                    Sign out
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <span>Sign in to load your own passport</span>
+                  <Button variant="outline" size="sm" onClick={session.signIn} disabled={session.isSigningIn}>
+                    {session.isSigningIn ? <Spinner className="mr-2" /> : null}
+                    Sign in with Farcaster
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+          {session.error && <p className="text-sm text-red-600 dark:text-red-400">{session.error}</p>}
           {error && (
             <div className="p-3 bg-red-50 dark:bg-red-950/50 border border-red-200 dark:border-red-800 rounded-lg">
               <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
             </div>
           )}
           <p className="text-xs text-muted-foreground leading-relaxed">
-            Enter your Farcaster ID to generate your reputation passport. Don't know your FID?{" "}
+            Enter your Farcaster ID, @username, verified wallet address, ENS name or Basename to generate your
+            reputation passport. Don't know your FID?{" "}
             <a
               href="https://warpcast.com/~/settings"
               target="_blank"
@@ -222,94 +319,71 @@ export function PassportGenerator() {
       )}
 
       {passport && !loading && (
-        <Card className="p-8 bg-gradient-to-br from-purple-600 via-blue-600 to-indigo-700 text-white shadow-2xl border-0 animate-fade-in-scale overflow-hidden relative">
-          {/* Background pattern */}
-          <div className="absolute inset-0 opacity-10">
-            <div
-              className="absolute inset-0"
-              style={{
-                backgroundImage: "radial-gradient(circle at 20px 20px, white 1px, transparent 0)",
-                backgroundSize: "40px 40px",
-              }}
-            ></div>
+        <PassportCard passport={passport}>
+          <div className="space-y-3">
+            <Button
+              variant="outline"
+              className="w-full border-white/30 text-white hover:bg-white/10 transition-all duration-300 bg-transparent"
+              onClick={() => setShowSimulator(!showSimulator)}
+            >
+              🔮 {showSimulator ? "Hide" : "Open"} What-if Simulator
+            </Button>
+            {showSimulator && scoreParams && (
+              <ScoreSimulator
+                fid={passport.fid}
+                params={scoreParams}
+                score={passport.score}
+                badge={passport.badge}
+              />
+            )}
           </div>
 
-          <div className="relative space-y-6">
-            <div className="flex items-start justify-between gap-4">
-              <div className="flex items-start gap-4 flex-1">
-                {passport.pfpUrl && (
-                  <img
-                    src={passport.pfpUrl || "/placeholder.svg"}
-                    alt={passport.displayName}
-                    className="w-16 h-16 rounded-full border-2 border-white/50 shadow-lg"
-                  />
-                )}
-                <div className="flex-1">
-                  <div className="flex items-center gap-2">
-                    <h2 className="text-3xl font-bold">{passport.displayName}</h2>
-                    {passport.powerBadge && <Badge className="bg-yellow-500 text-white text-xs">⚡ Power</Badge>}
-                  </div>
-                  <p className="text-white/80">@{passport.username}</p>
-                  <p className="text-sm text-white/60">FID: {passport.fid}</p>
-                  {passport.bio && <p className="text-sm text-white/80 mt-2 line-clamp-2">{passport.bio}</p>}
-                </div>
-              </div>
-              <Badge
-                className={`${getBadgeColor(passport.badge)} text-white px-3 py-1 text-sm font-semibold shadow-lg`}
-              >
-                {passport.badge}
-              </Badge>
-            </div>
+          <div className="pt-4 space-y-2">
+            {onchainPassport && <ExistingPassport onchain={onchainPassport} contractAddress={passportContract} />}
 
-            <div className="py-8 border-y border-white/20 bg-white/5 rounded-xl">
-              <div className={`text-7xl font-bold text-center ${getScoreColor(passport.score)} drop-shadow-lg`}>
-                {passport.score}
-              </div>
-              <p className="text-center text-white/80 mt-2 text-lg font-medium">Reputation Score</p>
-              <p className="text-center text-white/60 text-sm mt-1">
-                {passport.engagementRate.toFixed(1)}% engagement rate
-              </p>
-            </div>
+            {onchainPassport && (
+              <PassportRefresh
+                onchain={onchainPassport}
+                projectedScore={passport.score}
+                projectedBadge={passport.badge}
+                signedIn={session.user?.fid === onchainPassport.fid}
+                onUpdated={(score, badge) =>
+                  setOnchainPassport((prev) =>
+                    prev ? { ...prev, score, badge: badge as OnchainPassport["badge"], lastUpdated: Math.floor(Date.now() / 1000) } : prev,
+                  )
+                }
+              />
+            )}
 
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              <div className="bg-white/10 rounded-lg p-3 backdrop-blur-sm">
-                <p className="text-xs text-white/60 mb-1">Followers</p>
-                <p className="text-2xl font-bold">{passport.followers.toLocaleString()}</p>
-              </div>
-              <div className="bg-white/10 rounded-lg p-3 backdrop-blur-sm">
-                <p className="text-xs text-white/60 mb-1">Following</p>
-                <p className="text-2xl font-bold">{passport.following.toLocaleString()}</p>
-              </div>
-              <div className="bg-white/10 rounded-lg p-3 backdrop-blur-sm">
-                <p className="text-xs text-white/60 mb-1">Casts</p>
-                <p className="text-2xl font-bold">{passport.casts.toLocaleString()}</p>
+            {/* Wallet Status */}
+            {!onchainPassport && !isConnected && (
+              <div className="p-3 bg-yellow-500/20 border border-yellow-500/30 rounded-lg flex items-center gap-2">
+                <Wallet className="h-4 w-4 text-yellow-600" />
+                <p className="text-sm text-yellow-700">Connect your wallet to mint the NFT</p>
               </div>
-              <div className="bg-white/10 rounded-lg p-3 backdrop-blur-sm">
-                <p className="text-xs text-white/60 mb-1">Transactions</p>
-                <p className="text-2xl font-bold">{passport.txCount.toLocaleString()}</p>
+            )}
+            
+            {!onchainPassport && isConnected && address && walletLinked && (
+              <div className="p-3 bg-green-500/20 border border-green-500/30 rounded-lg flex items-center gap-2">
+                <Wallet className="h-4 w-4 text-green-600" />
+                <p className="text-sm text-green-700">Connected: {formatAddress(address)}</p>
               </div>
-            </div>
+            )}
 
-            <div className="pt-4 space-y-2">
-              {/* Wallet Status */}
-              {!isConnected && (
-                <div className="p-3 bg-yellow-500/20 border border-yellow-500/30 rounded-lg flex items-center gap-2">
-                  <Wallet className="h-4 w-4 text-yellow-600" />
-                  <p className="text-sm text-yellow-700">Connect your wallet to mint the NFT</p>
-                </div>
-              )}
-              
-              {isConnected && address && (
-                <div className="p-3 bg-green-500/20 border border-green-500/30 rounded-lg flex items-center gap-2">
-                  <Wallet className="h-4 w-4 text-green-600" />
-                  <p className="text-sm text-green-700">Connected: {formatAddress(address)}</p>
-                </div>
-              )}
+            {!onchainPassport && isConnected && address && !walletLinked && (
+              <div className="p-3 bg-yellow-500/20 border border-yellow-500/30 rounded-lg flex items-center gap-2">
+                <Wallet className="h-4 w-4 text-yellow-600" />
+                <p className="text-sm text-yellow-700">
+                  {formatAddress(address)} isn&apos;t linked to FID {passport.fid}. Connect its custody or a verified address to mint.
+                </p>
+              </div>
+            )}
 
-              {/* Mint Button */}
+            {/* Mint Button, replaced by the passport above once this FID has one */}
+            {!onchainPassport && (
               <Button
                 onClick={handleMint}
-                disabled={minting || !isConnected}
+                disabled={minting || mintStatus === "pending" || checkingOnchain || !isConnected || !walletLinked}
                 className="w-full bg-white text-purple-600 hover:bg-white/90 hover:scale-105 transition-all duration-300 shadow-lg font-semibold"
                 size="lg"
               >
@@ -318,55 +392,105 @@ export function PassportGenerator() {
                     <Spinner className="mr-2" />
                     Minting Passport...
                   </>
-                ) : mintSuccess ? (
+                ) : mintStatus === "pending" ? (
                   <>
-                    <CheckCircle className="mr-2 h-4 w-4" />
-                    Passport Minted!
+                    <Spinner className="mr-2" />
+                    Confirming...
                   </>
                 ) : (
                   "🎫 Mint Passport NFT"
                 )}
               </Button>
+            )}
 
-              {/* Mint Status Messages */}
-              {mintSuccess && txHash && (
-                <div className="p-3 bg-green-50 dark:bg-green-950/50 border border-green-200 dark:border-green-800 rounded-lg">
-                  <div className="flex items-center gap-2">
-                    <CheckCircle className="h-4 w-4 text-green-600" />
-                    <p className="text-sm text-green-600 dark:text-green-400">
-                      Passport NFT minted successfully!
-                    </p>
-                  </div>
+            {minting && mintEstimate && (
+              <p className="text-xs text-center text-white/70">
+                Estimated gas {mintEstimate.gas.toLocaleString()} · network fee up to{" "}
+                {Number(formatEther(mintEstimate.feeWei)).toFixed(6)} ETH
+              </p>
+            )}
+
+            {/* Mint Status Messages */}
+            {mintStatus === "pending" && txHash && (
+              <div className="p-3 bg-blue-50 dark:bg-blue-950/50 border border-blue-200 dark:border-blue-800 rounded-lg">
+                <div className="flex items-center gap-2">
+                  <Spinner className="h-4 w-4 text-blue-600" />
+                  <p className="text-sm text-blue-600 dark:text-blue-400">Transaction sent, waiting for confirmation...</p>
+                </div>
+                <a
+                  href={`https://basescan.org/tx/${txHash}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-blue-700 underline hover:text-blue-800 mt-1 block"
+                >
+                  View transaction: {txHash.slice(0, 10)}...
+                </a>
+              </div>
+            )}
+
+            {mintStatus === "confirmed" && txHash && (
+              <div className="p-3 bg-green-50 dark:bg-green-950/50 border border-green-200 dark:border-green-800 rounded-lg">
+                <div className="flex items-center gap-2">
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                  <p className="text-sm text-green-600 dark:text-green-400">
+                    {mintedTokenId !== null
+                      ? `Passport #${mintedTokenId} minted successfully!`
+                      : "Passport NFT minted successfully!"}
+                  </p>
+                </div>
+                <a
+                  href={`https://basescan.org/tx/${txHash}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-green-700 underline hover:text-green-800 mt-1 block"
+                >
+                  View transaction: {txHash.slice(0, 10)}...
+                </a>
+              </div>
+            )}
+
+            {mintStatus === "failed" && txHash && (
+              <div className="p-3 bg-red-50 dark:bg-red-950/50 border border-red-200 dark:border-red-800 rounded-lg space-y-2">
+                <div className="flex items-center gap-2">
+                  <AlertCircle className="h-4 w-4 text-red-600" />
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    Couldn&apos;t confirm the transaction: {describeContractError(txStatus.error)}
+                  </p>
+                </div>
+                <div className="flex items-center justify-between">
                   <a
                     href={`https://basescan.org/tx/${txHash}`}
                     target="_blank"
                     rel="noopener noreferrer"
-                    className="text-xs text-green-700 underline hover:text-green-800 mt-1 block"
+                    className="text-xs text-red-700 underline hover:text-red-800"
                   >
                     View transaction: {txHash.slice(0, 10)}...
                   </a>
+                  <Button size="sm" variant="outline" onClick={() => txStatus.refetch()}>
+                    Check again
+                  </Button>
                 </div>
-              )}
+              </div>
+            )}
 
-              {mintError && (
-                <div className="p-3 bg-red-50 dark:bg-red-950/50 border border-red-200 dark:border-red-800 rounded-lg">
-                  <div className="flex items-center gap-2">
-                    <AlertCircle className="h-4 w-4 text-red-600" />
-                    <p className="text-sm text-red-600 dark:text-red-400">{mintError}</p>
-                  </div>
+            {mintError && (
+              <div className="p-3 bg-red-50 dark:bg-red-950/50 border border-red-200 dark:border-red-800 rounded-lg">
+                <div className="flex items-center gap-2">
+                  <AlertCircle className="h-4 w-4 text-red-600" />
+                  <p className="text-sm text-red-600 dark:text-red-400">{mintError}</p>
                 </div>
-              )}
+              </div>
+            )}
 
-              <Button
-                variant="outline"
-                className="w-full border-white/30 text-white hover:bg-white/10 transition-all duration-300 bg-transparent"
-                size="lg"
-              >
-                📤 Share to Farcaster
-              </Button>
-            </div>
+            <Button
+              variant="outline"
+              className="w-full border-white/30 text-white hover:bg-white/10 transition-all duration-300 bg-transparent"
+              size="lg"
+            >
+              📤 Share to Farcaster
+            </Button>
           </div>
-        </Card>
+        </PassportCard>
       )}
     </div>
   )
@@ -0,0 +1,75 @@
+import type { MintedEvent, PassportEvent, UpdatedEvent } from "@/lib/indexer"
+import { ArrowRightLeft, RefreshCw, Sparkles } from "lucide-react"
+
+interface PassportHistoryProps {
+  events: PassportEvent[]
+}
+
+function formatTimestamp(seconds: number) {
+  return new Date(seconds * 1000).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" })
+}
+
+function formatAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`
+}
+
+function describeEvent(event: PassportEvent, previous: PassportEvent[]) {
+  switch (event.type) {
+    case "minted":
+      return `Minted with a score of ${event.score} (${event.badge}) to ${formatAddress(event.owner)}`
+    case "updated": {
+      const last = previous.findLast((e): e is MintedEvent | UpdatedEvent => e.type !== "transfer")
+      const delta = last ? event.score - last.score : null
+      const change = delta ? ` (${delta > 0 ? "+" : ""}${delta})` : ""
+      return `Score updated to ${event.score}${change}, ${event.badge}`
+    }
+    case "transfer":
+      return `Transferred from ${formatAddress(event.from)} to ${formatAddress(event.to)}`
+  }
+}
+
+const EVENT_ICONS = {
+  minted: Sparkles,
+  updated: RefreshCw,
+  transfer: ArrowRightLeft,
+}
+
+/** Indexed on-chain events for a passport, newest first */
+export function PassportHistory({ events }: PassportHistoryProps) {
+  // The mint's own Transfer from the zero address only repeats the mint
+  const visible = events.filter((event) => event.type !== "transfer" || BigInt(event.from) !== BigInt(0))
+
+  if (visible.length === 0) {
+    return <p className="text-sm text-muted-foreground">No indexed on-chain activity yet.</p>
+  }
+
+  return (
+    <ol className="space-y-3">
+      {visible
+        .map((event, index) => ({ event, description: describeEvent(event, visible.slice(0, index)) }))
+        .reverse()
+        .map(({ event, description }) => {
+          const Icon = EVENT_ICONS[event.type]
+          return (
+            <li key={`${event.txHash}-${event.logIndex}`} className="flex items-start gap-3 text-sm">
+              <Icon className="h-4 w-4 mt-0.5 text-purple-600 dark:text-purple-300 shrink-0" />
+              <div className="flex-1 text-left">
+                <p>{description}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatTimestamp(event.timestamp)} ·{" "}
+                  <a
+                    href={`https://basescan.org/tx/${event.txHash}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="underline hover:text-foreground"
+                  >
+                    View tx
+                  </a>
+                </p>
+              </div>
+            </li>
+          )
+        })}
+    </ol>
+  )
+}
@@ -0,0 +1,118 @@
+import Link from "next/link"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { PassportCard } from "@/components/passport-card"
+import { PassportHistory } from "@/components/passport-history"
+import { PassportShare } from "@/components/passport-share"
+import { ThemeToggle } from "@/components/theme-toggle"
+import { getContractAddress } from "@/lib/contract"
+import { getAppUrl, getProfilePath, type PassportProfile as PassportProfileData } from "@/lib/passport-profile"
+import { ArrowLeft, ExternalLink, Trophy } from "lucide-react"
+
+interface PassportProfileProps {
+  profile: PassportProfileData
+}
+
+function formatTimestamp(seconds: number) {
+  return new Date(seconds * 1000).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" })
+}
+
+/** Public profile page body shared by /passport/[tokenId] and /u/[username] */
+export function PassportProfile({ profile }: PassportProfileProps) {
+  const { passport, onchain, history, rank } = profile
+  const url = `${getAppUrl()}${getProfilePath(profile)}`
+  const shareText = onchain
+    ? `Check out ${passport ? `@${passport.username}'s` : "this"} Farcaster Reputation Passport: score ${onchain.score}, ${onchain.badge} badge`
+    : `${passport ? `@${passport.username}` : `FID ${profile.fid}`} has a Farcaster reputation score of ${passport?.score}`
+
+  const onchainSummary = onchain && (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+        <div className="bg-white/10 rounded-lg p-2">
+          <p className="text-xs text-white/60">Passport</p>
+          <p className="font-bold">#{onchain.tokenId}</p>
+        </div>
+        <div className="bg-white/10 rounded-lg p-2">
+          <p className="text-xs text-white/60">On-chain score</p>
+          <p className="font-bold">
+            {onchain.score} · {onchain.badge}
+          </p>
+        </div>
+        <div className="bg-white/10 rounded-lg p-2">
+          <p className="text-xs text-white/60">Leaderboard</p>
+          <p className="font-bold">{rank ? `#${rank}` : "-"}</p>
+        </div>
+        <div className="bg-white/10 rounded-lg p-2">
+          <p className="text-xs text-white/60">Last update</p>
+          <p className="font-medium">{formatTimestamp(onchain.lastUpdated)}</p>
+        </div>
+      </div>
+      <a
+        href={`https://basescan.org/nft/${getContractAddress()}/${onchain.tokenId}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-center justify-center gap-1 text-xs text-white/80 underline hover:text-white"
+      >
+        View token on BaseScan
+        <ExternalLink className="h-3 w-3" />
+      </a>
+    </div>
+  )
+
+  return (
+    <main className="relative min-h-screen overflow-hidden bg-gradient-to-br from-violet-100 via-fuchsia-100 to-cyan-100 dark:from-gray-950 dark:via-purple-950 dark:to-indigo-950">
+      <div className="absolute top-4 right-4 z-10">
+        <ThemeToggle />
+      </div>
+
+      <div className="relative container mx-auto px-4 py-16">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <div className="flex items-center justify-between text-sm">
+            <Link href="/" className="inline-flex items-center gap-1 text-muted-foreground hover:text-foreground">
+              <ArrowLeft className="h-4 w-4" />
+              Get your passport
+            </Link>
+            <Link href="/leaderboard" className="inline-flex items-center gap-1 text-muted-foreground hover:text-foreground">
+              <Trophy className="h-4 w-4" />
+              Leaderboard
+            </Link>
+          </div>
+
+          {passport ? (
+            <PassportCard passport={passport}>
+              {onchainSummary}
+              <PassportShare url={url} text={shareText} />
+            </PassportCard>
+          ) : (
+            <Card className="p-8 bg-gradient-to-br from-purple-600 via-blue-600 to-indigo-700 text-white shadow-2xl border-0 space-y-6">
+              <h2 className="text-3xl font-bold">FID {profile.fid}</h2>
+              {onchainSummary}
+              <PassportShare url={url} text={shareText} />
+            </Card>
+          )}
+
+          {onchain ? (
+            <Card className="p-6 bg-white/80 dark:bg-gray-900/80 backdrop-blur-md space-y-4">
+              <div className="flex items-baseline justify-between">
+                <h2 className="text-lg font-semibold">On-chain history</h2>
+                <p className="text-xs text-muted-foreground">Minted {formatTimestamp(onchain.mintedAt)}</p>
+              </div>
+              {profile.indexed ? (
+                <PassportHistory events={history} />
+              ) : (
+                <p className="text-sm text-muted-foreground">On-chain history isn&apos;t available right now.</p>
+              )}
+            </Card>
+          ) : (
+            <Card className="p-6 bg-white/80 dark:bg-gray-900/80 backdrop-blur-md text-center space-y-3">
+              <p className="text-sm text-muted-foreground">This passport hasn&apos;t been minted on Base yet.</p>
+              <Button asChild className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700">
+                <Link href="/">Mint a passport</Link>
+              </Button>
+            </Card>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,166 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useWatchContractEvent } from "wagmi"
+import { Button } from "@/components/ui/button"
+import { Spinner } from "@/components/ui/spinner"
+import { REPUTATION_PASSPORT_ABI } from "@/lib/contract-abi"
+import type { OnchainPassport } from "@/lib/contract"
+import type { RefreshRequest, RefreshRequestStatus } from "@/lib/refresh"
+import { RefreshCw } from "lucide-react"
+
+interface PassportRefreshProps {
+  onchain: OnchainPassport
+  /** Score and badge the passport would get if refreshed now */
+  projectedScore: number
+  projectedBadge: string
+  /** Whether the viewer is signed in as the passport's FID, only they can request a refresh */
+  signedIn: boolean
+  onUpdated?: (score: number, badge: string) => void
+}
+
+const STATUS_LABELS: Record<RefreshRequestStatus, string> = {
+  submitted: "Update submitted, waiting for confirmation...",
+  queued: "Update queued for the passport admins, waiting for confirmation...",
+  failed: "Refresh failed",
+  unchanged: "Your score hasn't changed enough to update yet",
+  confirmed: "Passport updated on-chain!",
+}
+
+function formatWait(seconds: number) {
+  if (seconds < 60 * 60) return `${Math.ceil(seconds / 60)} min`
+  return `${Math.ceil(seconds / (60 * 60))} h`
+}
+
+export function PassportRefresh({ onchain, projectedScore, projectedBadge, signedIn, onUpdated }: PassportRefreshProps) {
+  const [request, setRequest] = useState<RefreshRequest | null>(null)
+  const [retryAfter, setRetryAfter] = useState(0)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState("")
+
+  const awaitingChain = request?.status === "submitted" || request?.status === "queued"
+
+  useEffect(() => {
+    fetch(`/api/passport/refresh?fid=${onchain.fid}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.error) return
+        setRequest(data.request)
+        setRetryAfter(data.retryAfterSeconds)
+      })
+      .catch((err) => console.error("Refresh status error:", err))
+  }, [onchain.fid])
+
+  useWatchContractEvent({
+    address: process.env.NEXT_PUBLIC_CONTRACT_ADDRESS as `0x${string}`,
+    abi: REPUTATION_PASSPORT_ABI,
+    eventName: "PassportUpdated",
+    args: { tokenId: BigInt(onchain.tokenId) },
+    enabled: awaitingChain,
+    onLogs(logs) {
+      const latest = logs[logs.length - 1]
+      if (latest?.args.newScore === undefined || latest.args.newBadge === undefined) return
+      const score = Number(latest.args.newScore)
+      setRequest((prev) => (prev ? { ...prev, status: "confirmed", newScore: score, newBadge: latest.args.newBadge! } : prev))
+      onUpdated?.(score, latest.args.newBadge)
+    },
+  })
+
+  const handleRefresh = async () => {
+    setSubmitting(true)
+    setError("")
+
+    try {
+      const res = await fetch("/api/passport/refresh", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fid: onchain.fid }),
+      })
+      const data = await res.json()
+
+      if (data.error) {
+        setError(data.error)
+        if (data.retryAfterSeconds) setRetryAfter(data.retryAfterSeconds)
+        return
+      }
+
+      setRequest(data.request)
+      if (data.request.status !== "failed") {
+        setRetryAfter(Number.POSITIVE_INFINITY)
+      }
+    } catch (err) {
+      console.error("Refresh error:", err)
+      setError("Failed to request a refresh. Please try again.")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const oldScore = request?.oldScore ?? onchain.score
+  const oldBadge = request?.oldBadge ?? onchain.badge
+  const newScore = request?.newScore ?? projectedScore
+  const newBadge = request?.newBadge ?? projectedBadge
+  const delta = newScore - oldScore
+
+  return (
+    <div className="p-3 bg-white/10 border border-white/20 rounded-lg space-y-3">
+      <p className="text-sm font-semibold">Refresh your passport</p>
+
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div className="bg-white/5 rounded-lg p-2">
+          <p className="text-xs text-white/60">On-chain</p>
+          <p className="font-bold">{oldScore}</p>
+          <p className="text-xs text-white/80">{oldBadge}</p>
+        </div>
+        <div className="bg-white/5 rounded-lg p-2">
+          <p className="text-xs text-white/60">
+            Now{" "}
+            {delta !== 0 && (
+              <span className={delta > 0 ? "text-green-300" : "text-red-300"}>
+                ({delta > 0 ? "+" : ""}
+                {delta})
+              </span>
+            )}
+          </p>
+          <p className="font-bold">{newScore}</p>
+          <p className="text-xs text-white/80">{newBadge}</p>
+        </div>
+      </div>
+
+      <Button
+        onClick={handleRefresh}
+        disabled={!signedIn || submitting || awaitingChain || retryAfter > 0}
+        variant="outline"
+        className="w-full border-white/30 text-white hover:bg-white/10 bg-transparent"
+      >
+        {submitting ? <Spinner className="mr-2" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+        Refresh my passport
+      </Button>
+
+      {request && (
+        <div className="flex items-center gap-2 text-xs text-white/80">
+          {awaitingChain && <Spinner className="h-3 w-3" />}
+          <span>{request.status === "failed" && request.error ? `Refresh failed: ${request.error}` : STATUS_LABELS[request.status]}</span>
+          {request.txHash && (
+            <a
+              href={`https://basescan.org/tx/${request.txHash}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="underline"
+            >
+              View tx
+            </a>
+          )}
+        </div>
+      )}
+
+      {!signedIn && <p className="text-xs text-white/60">Sign in as FID {onchain.fid} to refresh this passport</p>}
+
+      {retryAfter > 0 && Number.isFinite(retryAfter) && !awaitingChain && (
+        <p className="text-xs text-white/60">You can request another refresh in {formatWait(retryAfter)}</p>
+      )}
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+    </div>
+  )
+}
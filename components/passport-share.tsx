@@ -0,0 +1,46 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Check, Link as LinkIcon } from "lucide-react"
+
+interface PassportShareProps {
+  url: string
+  text: string
+}
+
+export function PassportShare({ url, text }: PassportShareProps) {
+  const [copied, setCopied] = useState(false)
+
+  const warpcastUrl = `https://warpcast.com/~/compose?text=${encodeURIComponent(text)}&embeds[]=${encodeURIComponent(url)}`
+  const xUrl = `https://x.com/intent/tweet?text=${encodeURIComponent(text)}&url=${encodeURIComponent(url)}`
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (err) {
+      console.error("Copy link error:", err)
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+      <Button asChild variant="outline" className="border-white/30 text-white hover:bg-white/10 bg-transparent">
+        <a href={warpcastUrl} target="_blank" rel="noopener noreferrer">
+          📤 Share to Farcaster
+        </a>
+      </Button>
+      <Button asChild variant="outline" className="border-white/30 text-white hover:bg-white/10 bg-transparent">
+        <a href={xUrl} target="_blank" rel="noopener noreferrer">
+          Share on X
+        </a>
+      </Button>
+      <Button onClick={handleCopy} variant="outline" className="border-white/30 text-white hover:bg-white/10 bg-transparent">
+        {copied ? <Check className="mr-2 h-4 w-4" /> : <LinkIcon className="mr-2 h-4 w-4" />}
+        {copied ? "Copied" : "Copy link"}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+"use client"
+
+import type { ScoreContribution } from "@/lib/scoring"
+
+interface ScoreBreakdownProps {
+  breakdown: ScoreContribution[]
+  score: number
+}
+
+function formatInput(input: number | boolean) {
+  if (typeof input === "boolean") return input ? "Yes" : "No"
+  return input.toLocaleString()
+}
+
+export function ScoreBreakdown({ breakdown, score }: ScoreBreakdownProps) {
+  return (
+    <div className="bg-white/5 rounded-xl p-4 space-y-3">
+      <div className="flex items-baseline justify-between">
+        <p className="text-sm font-semibold">How your score is calculated</p>
+        <p className="text-xs text-white/60">{score} / 1000</p>
+      </div>
+      <ul className="space-y-2">
+        {breakdown.map((item) => (
+          <li key={item.id} className="space-y-1">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-white/80">
+                {item.label} <span className="text-white/50">({formatInput(item.input)})</span>
+              </span>
+              <span className="font-medium">
+                {item.points} <span className="text-white/50">/ {item.cap}</span>
+              </span>
+            </div>
+            <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-white/70 rounded-full transition-all duration-500"
+                style={{ width: `${item.cap > 0 ? (item.points / item.cap) * 100 : 0}%` }}
+              />
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Spinner } from "@/components/ui/spinner"
+import type { ScoreCalculationParams } from "@/lib/types"
+
+interface ScoreSimulatorProps {
+  fid: number
+  params: ScoreCalculationParams
+  score: number
+  badge: string
+}
+
+interface SimulationResult {
+  projected: {
+    score: number
+    badge: string
+  }
+  delta: number
+}
+
+const SLIDERS: { key: Exclude<keyof ScoreCalculationParams, "powerBadge">; label: string; max: number; step: number }[] = [
+  { key: "followers", label: "Followers", max: 20000, step: 50 },
+  { key: "following", label: "Following", max: 5000, step: 10 },
+  { key: "casts", label: "Casts", max: 2000, step: 10 },
+  { key: "engagementRate", label: "Engagement rate", max: 20, step: 0.5 },
+  { key: "ageDays", label: "Account age (days)", max: 1095, step: 5 },
+  { key: "txCount", label: "Transactions on Base", max: 1500, step: 10 },
+  { key: "weightedTxCount", label: "Transactions (all chains, weighted)", max: 2000, step: 10 },
+  { key: "crossChainActiveDays", label: "On-chain active days", max: 400, step: 5 },
+  { key: "crossChainContractsDeployed", label: "Contracts deployed", max: 15, step: 1 },
+  { key: "verifiedAddresses", label: "Verified addresses", max: 6, step: 1 },
+]
+
+export function ScoreSimulator({ fid, params, score, badge }: ScoreSimulatorProps) {
+  const [values, setValues] = useState<ScoreCalculationParams>(params)
+  const [result, setResult] = useState<SimulationResult | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    setValues(params)
+    setResult(null)
+  }, [params])
+
+  const simulate = async (next: ScoreCalculationParams) => {
+    setLoading(true)
+    setError("")
+
+    try {
+      const res = await fetch("/api/score/simulate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fid, overrides: next }),
+      })
+      const data = await res.json()
+
+      if (data.error) {
+        setError(data.error)
+        return
+      }
+
+      setResult(data)
+    } catch (err) {
+      setError("Simulation failed. Please try again.")
+      console.error("Simulate error:", err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const update = (patch: Partial<ScoreCalculationParams>, commit: boolean) => {
+    const next = { ...values, ...patch }
+    setValues(next)
+    if (commit) {
+      simulate(next)
+    }
+  }
+
+  const projectedScore = result?.projected.score ?? score
+  const projectedBadge = result?.projected.badge ?? badge
+  const delta = result?.delta ?? 0
+
+  return (
+    <div className="bg-white/5 rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-semibold">What-if simulator</p>
+          <p className="text-xs text-white/60">See which actions would move your score and badge</p>
+        </div>
+        <div className="text-right">
+          <p className="text-2xl font-bold flex items-center gap-2 justify-end">
+            {loading && <Spinner className="h-4 w-4" />}
+            {projectedScore}
+          </p>
+          <p className="text-xs text-white/70">
+            {projectedBadge}
+            {delta !== 0 && (
+              <span className={delta > 0 ? "text-green-300 ml-1" : "text-red-300 ml-1"}>
+                ({delta > 0 ? "+" : ""}
+                {delta})
+              </span>
+            )}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-x-6 gap-y-4">
+        {SLIDERS.map(({ key, label, max, step }) => (
+          <div key={key} className="space-y-2">
+            <div className="flex justify-between text-xs">
+              <span className="text-white/80">{label}</span>
+              <span className="font-medium">{(values[key] ?? 0).toLocaleString()}</span>
+            </div>
+            <Slider
+              value={[values[key] ?? 0]}
+              min={0}
+              max={Math.max(max, params[key] ?? 0)}
+              step={step}
+              onValueChange={([value]) => update({ [key]: value }, false)}
+              onValueCommit={([value]) => update({ [key]: value }, true)}
+            />
+          </div>
+        ))}
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-white/80">Power badge</span>
+          <Switch checked={values.powerBadge} onCheckedChange={(checked) => update({ powerBadge: checked }, true)} />
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+    </div>
+  )
+}
@@ -3,14 +3,22 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 
 /**
  * @title ReputationPassport
  * @dev ERC721 NFT representing Farcaster user reputation
  */
-contract ReputationPassport is ERC721, Ownable {
+contract ReputationPassport is ERC721, Ownable, EIP712 {
+    bytes32 private constant MINT_VOUCHER_TYPEHASH =
+        keccak256(
+            "MintVoucher(uint256 fid,address to,uint256 score,string badge,string scoringVersion,uint256 nonce,uint256 expiry)"
+        );
+
     uint256 public nextTokenId;
     string public baseTokenURI;
+    address public mintSigner;
 
     struct Passport {
         uint256 fid;
@@ -20,8 +28,22 @@ contract ReputationPassport is ERC721, Ownable {
         uint256 lastUpdated;
     }
 
+    /**
+     * @dev Score and badge computed and signed by the app's mint signer
+     */
+    struct MintVoucher {
+        uint256 fid;
+        address to;
+        uint256 score;
+        string badge;
+        string scoringVersion;
+        uint256 nonce;
+        uint256 expiry;
+    }
+
     mapping(uint256 => Passport) public passports;
     mapping(uint256 => uint256) public fidToToken;
+    mapping(uint256 => bool) public usedNonces;
 
     event PassportMinted(
         address indexed user,
@@ -37,12 +59,46 @@ contract ReputationPassport is ERC721, Ownable {
         string newBadge
     );
 
-    constructor(string memory _baseTokenURI) ERC721("Farcaster Reputation Passport", "FRP") Ownable(msg.sender) {
+    event MintSignerUpdated(address indexed signer);
+
+    constructor(string memory _baseTokenURI, address _mintSigner)
+        ERC721("Farcaster Reputation Passport", "FRP")
+        Ownable(msg.sender)
+        EIP712("Farcaster Reputation Passport", "1")
+    {
         baseTokenURI = _baseTokenURI;
+        mintSigner = _mintSigner;
     }
 
     /**
-     * @dev Mint a new reputation passport
+     * @dev Mint a passport with a score signed by the mint signer
+     * @param voucher EIP-712 mint voucher issued by /api/mint
+     * @param signature Mint signer's signature over the voucher
+     */
+    function mintPassportWithVoucher(MintVoucher calldata voucher, bytes calldata signature) external {
+        require(block.timestamp <= voucher.expiry, "Voucher expired");
+        require(!usedNonces[voucher.nonce], "Voucher already used");
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                MINT_VOUCHER_TYPEHASH,
+                voucher.fid,
+                voucher.to,
+                voucher.score,
+                keccak256(bytes(voucher.badge)),
+                keccak256(bytes(voucher.scoringVersion)),
+                voucher.nonce,
+                voucher.expiry
+            )
+        );
+        require(ECDSA.recover(_hashTypedDataV4(structHash), signature) == mintSigner, "Invalid voucher signature");
+
+        usedNonces[voucher.nonce] = true;
+        _mintPassport(voucher.to, voucher.fid, voucher.score, voucher.badge);
+    }
+
+    /**
+     * @dev Mint a new reputation passport without a voucher
      * @param to Address to mint to
      * @param fid Farcaster ID
      * @param score Reputation score (0-1000)
@@ -53,15 +109,25 @@ contract ReputationPassport is ERC721, Ownable {
         uint256 fid,
         uint256 score,
         string calldata badge
-    ) external {
+    ) external onlyOwner {
+        _mintPassport(to, fid, score, badge);
+    }
+
+    function _mintPassport(
+        address to,
+        uint256 fid,
+        uint256 score,
+        string calldata badge
+    ) internal {
         require(fidToToken[fid] == 0, "Passport already exists for this FID");
         require(score <= 1000, "Score must be <= 1000");
 
         nextTokenId++;
         uint256 tokenId = nextTokenId;
 
-        _safeMint(to, tokenId);
-
+        // Record the passport before _safeMint calls onERC721Received, so a
+        // contract recipient re-entering with another voucher for this FID
+        // hits the duplicate check above
         passports[tokenId] = Passport({
             fid: fid,
             score: score,
@@ -69,9 +135,10 @@ contract ReputationPassport is ERC721, Ownable {
             mintedAt: block.timestamp,
             lastUpdated: block.timestamp
         });
-
         fidToToken[fid] = tokenId;
 
+        _safeMint(to, tokenId);
+
         emit PassportMinted(to, tokenId, fid, score, badge);
     }
 
@@ -106,6 +173,15 @@ contract ReputationPassport is ERC721, Ownable {
         return passports[tokenId];
     }
 
+    /**
+     * @dev Set the address whose vouchers are accepted by mintPassportWithVoucher
+     * @param _mintSigner New mint signer
+     */
+    function setMintSigner(address _mintSigner) external onlyOwner {
+        mintSigner = _mintSigner;
+        emit MintSignerUpdated(_mintSigner);
+    }
+
     /**
      * @dev Set base URI for token metadata
      * @param _baseTokenURI New base URI
@@ -0,0 +1,102 @@
+// Sign In With Farcaster session backed by the /api/auth routes
+"use client"
+
+import { useAccount, useSignMessage } from "wagmi"
+import { base } from "wagmi/chains"
+import { createSiweMessage } from "viem/siwe"
+import { useCallback, useEffect, useState } from "react"
+
+export interface FarcasterSessionUser {
+  fid: number
+  address: string
+}
+
+export function useFarcasterSession() {
+  const { address, chainId } = useAccount()
+  const { signMessageAsync } = useSignMessage()
+  const [user, setUser] = useState<FarcasterSessionUser | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSigningIn, setIsSigningIn] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetch("/api/auth/session")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!cancelled) setUser(data.authenticated ? { fid: data.fid, address: data.address } : null)
+      })
+      .catch((err) => console.error("Session error:", err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const signIn = useCallback(async () => {
+    if (!address) {
+      setError("Please connect your wallet first")
+      return null
+    }
+
+    setIsSigningIn(true)
+    setError(null)
+
+    try {
+      const nonceRes = await fetch(`/api/auth/nonce?address=${address}`)
+      const nonceData = await nonceRes.json()
+      if (nonceData.error) throw new Error(nonceData.error)
+      if (!nonceData.fid) throw new Error("No Farcaster account is linked to this wallet")
+
+      const message = createSiweMessage({
+        domain: window.location.host,
+        address,
+        statement: "Sign in to Farcaster Reputation Passport",
+        uri: window.location.origin,
+        version: "1",
+        chainId: chainId ?? base.id,
+        nonce: nonceData.nonce,
+        issuedAt: new Date(),
+        resources: [`farcaster://fid/${nonceData.fid}`],
+      })
+      const signature = await signMessageAsync({ message })
+
+      const verifyRes = await fetch("/api/auth/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message, signature }),
+      })
+      const verifyData = await verifyRes.json()
+      if (verifyData.error) throw new Error(verifyData.error)
+
+      const signedIn = { fid: verifyData.fid, address: verifyData.address }
+      setUser(signedIn)
+      return signedIn
+    } catch (err) {
+      console.error("Sign in error:", err)
+      setError(err instanceof Error ? err.message : "Failed to sign in")
+      return null
+    } finally {
+      setIsSigningIn(false)
+    }
+  }, [address, chainId, signMessageAsync])
+
+  const signOut = useCallback(async () => {
+    await fetch("/api/auth/session", { method: "DELETE" })
+    setUser(null)
+  }, [])
+
+  return {
+    user,
+    isAuthenticated: user !== null,
+    isLoading,
+    isSigningIn,
+    error,
+    signIn,
+    signOut,
+  }
+}
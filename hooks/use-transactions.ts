@@ -238,7 +238,7 @@ export function useTransactionSender() {
 }
 
 export function useTransactionStatus(txHash?: string) {
-  const { data: receipt, isLoading, error } = useWaitForTransactionReceipt({
+  const { data: receipt, isLoading, error, refetch } = useWaitForTransactionReceipt({
     hash: txHash as `0x${string}`,
     confirmations: 1
   })
@@ -247,6 +247,7 @@ export function useTransactionStatus(txHash?: string) {
     receipt,
     isLoading,
     error,
+    refetch,
     status: receipt?.status,
     isSuccess: receipt?.status === 'success',
     isFailure: receipt?.status === 'reverted'
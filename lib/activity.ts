@@ -0,0 +1,49 @@
+import { fetchUserCasts } from "@/lib/neynar"
+import type { NeynarCast, NeynarUser, NeynarUserWithActivity, UserActivity } from "@/lib/types"
+
+const DEFAULT_WINDOW_DAYS = 365
+
+export function getActivityWindowDays(): number {
+  return Number.parseInt(process.env.ACTIVITY_WINDOW_DAYS || "") || DEFAULT_WINDOW_DAYS
+}
+
+export function summarizeActivity(casts: NeynarCast[], windowDays: number, truncated = false): UserActivity {
+  let replies = 0
+  let likesReceived = 0
+  let recastsReceived = 0
+  let repliesReceived = 0
+
+  for (const cast of casts) {
+    if (cast.parent_hash) replies++
+    likesReceived += cast.reactions?.likes_count || 0
+    recastsReceived += cast.reactions?.recasts_count || 0
+    repliesReceived += cast.replies?.count || 0
+  }
+
+  const reactionsReceived = likesReceived + recastsReceived
+
+  return {
+    windowDays,
+    casts: casts.length - replies,
+    replies,
+    likesReceived,
+    recastsReceived,
+    repliesReceived,
+    reactionsReceived,
+    engagementRate: casts.length > 0 ? reactionsReceived / casts.length : 0,
+    truncated,
+  }
+}
+
+export async function fetchUserActivity(
+  user: NeynarUser,
+  windowDays: number = getActivityWindowDays(),
+): Promise<NeynarUserWithActivity> {
+  const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000)
+  const { casts, truncated } = await fetchUserCasts(user.fid, { since })
+
+  return {
+    ...user,
+    activity: summarizeActivity(casts, windowDays, truncated),
+  }
+}
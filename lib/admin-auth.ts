@@ -0,0 +1,21 @@
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+/**
+ * True when the request carries `Authorization: Bearer <token>` matching
+ * ADMIN_API_TOKEN, or CRON_SECRET for Vercel Cron invocations.
+ * Always false when neither is configured.
+ */
+export function isAdminRequest(req: Request): boolean {
+  const header = req.headers.get("authorization") || ""
+  const token = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : ""
+  if (!token) return false
+
+  return [process.env.ADMIN_API_TOKEN, process.env.CRON_SECRET].some((secret) => Boolean(secret) && safeEqual(token, secret!))
+}
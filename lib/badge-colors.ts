@@ -0,0 +1,34 @@
+import type { BadgeType } from "@/lib/types"
+
+/** Hex colors for badges in server-rendered images */
+export const BADGE_COLORS: Record<BadgeType, string> = {
+  OG: "#10b981",
+  Onchain: "#3b82f6",
+  Active: "#eab308",
+  Builder: "#a855f7",
+  Whale: "#0ea5e9",
+  Newcomer: "#6b7280",
+}
+
+// On-chain badges are arbitrary strings, so only own keys count as known badges
+function isKnownBadge(badge: string): badge is BadgeType {
+  return Object.hasOwn(BADGE_COLORS, badge)
+}
+
+export function getBadgeHexColor(badge: string): string {
+  return isKnownBadge(badge) ? BADGE_COLORS[badge] : BADGE_COLORS.Newcomer
+}
+
+/** Tailwind gradient classes for badge pills in the app */
+export const BADGE_GRADIENTS: Record<BadgeType, string> = {
+  OG: "bg-gradient-to-r from-yellow-500 to-orange-500",
+  Onchain: "bg-gradient-to-r from-blue-500 to-cyan-500",
+  Active: "bg-gradient-to-r from-green-500 to-emerald-500",
+  Builder: "bg-gradient-to-r from-purple-500 to-pink-500",
+  Whale: "bg-gradient-to-r from-sky-500 to-indigo-500",
+  Newcomer: "bg-gradient-to-r from-gray-500 to-slate-500",
+}
+
+export function getBadgeGradient(badge: string): string {
+  return isKnownBadge(badge) ? BADGE_GRADIENTS[badge] : BADGE_GRADIENTS.Newcomer
+}
@@ -0,0 +1,89 @@
+import { KvCacheStore } from "./kv-store"
+import { MemoryCacheStore } from "./memory-store"
+import type { CacheInfo, CacheOptions, CacheStore } from "./types"
+
+export { KvCacheStore } from "./kv-store"
+export { MemoryCacheStore } from "./memory-store"
+export type { CacheEntry, CacheInfo, CacheOptions, CacheStatus, CacheStore } from "./types"
+
+let cacheStore: CacheStore | null = null
+const inflight = new Map<string, Promise<unknown>>()
+
+export function getCacheStore(): CacheStore {
+  if (!cacheStore) {
+    const url = process.env.KV_REST_API_URL
+    const token = process.env.KV_REST_API_TOKEN
+    cacheStore = url && token ? new KvCacheStore(url, token) : new MemoryCacheStore()
+  }
+  return cacheStore
+}
+
+export function setCacheStore(store: CacheStore) {
+  cacheStore = store
+}
+
+function info(status: CacheInfo["status"], storedAt: number, ttlSeconds: number): CacheInfo {
+  return {
+    status,
+    storedAt: new Date(storedAt).toISOString(),
+    ageSeconds: Math.floor((Date.now() - storedAt) / 1000),
+    ttlSeconds,
+  }
+}
+
+// Concurrent callers for the same key share one loader call
+function load<T>(key: string, loader: () => Promise<T | null>, options: CacheOptions): Promise<T | null> {
+  const pending = inflight.get(key)
+  if (pending) return pending as Promise<T | null>
+
+  const promise = (async () => {
+    try {
+      const value = await loader()
+      if (value !== null) {
+        await getCacheStore()
+          .set(key, { value, storedAt: Date.now() }, options.ttlSeconds + options.staleSeconds)
+          .catch((error) => console.error("Cache write failed:", error))
+      }
+      return value
+    } finally {
+      inflight.delete(key)
+    }
+  })()
+
+  inflight.set(key, promise)
+  return promise
+}
+
+/**
+ * Returns the cached value for `key`, or computes it with `loader`.
+ * Stale values are served immediately while a refresh runs in the background.
+ * A null result from `loader` is returned but never cached.
+ */
+export async function cached<T>(
+  key: string,
+  loader: () => Promise<T | null>,
+  options: CacheOptions,
+): Promise<{ value: T; cache: CacheInfo } | null> {
+  const entry = await getCacheStore()
+    .get<T>(key)
+    .catch((error) => {
+      console.error("Cache read failed:", error)
+      return null
+    })
+
+  if (entry) {
+    const age = (Date.now() - entry.storedAt) / 1000
+    if (age < options.ttlSeconds) {
+      return { value: entry.value, cache: info("hit", entry.storedAt, options.ttlSeconds) }
+    }
+    if (age < options.ttlSeconds + options.staleSeconds) {
+      load(key, loader, options).catch((error) => console.error(`Background refresh of ${key} failed:`, error))
+      return { value: entry.value, cache: info("stale", entry.storedAt, options.ttlSeconds) }
+    }
+  }
+
+  const value = await load(key, loader, options)
+  if (value === null) return null
+
+  return { value, cache: info("miss", Date.now(), options.ttlSeconds) }
+}
@@ -0,0 +1,40 @@
+import type { CacheEntry, CacheStore } from "./types"
+
+/** Store backed by an Upstash-compatible Redis REST API */
+export class KvCacheStore implements CacheStore {
+  constructor(
+    private url: string,
+    private token: string,
+  ) {}
+
+  private async command<T>(args: (string | number)[]): Promise<T | null> {
+    const res = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(args),
+    })
+
+    if (!res.ok) {
+      throw new Error(`KV error: ${res.status} ${await res.text()}`)
+    }
+
+    const data: { result: T | null } = await res.json()
+    return data.result
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const raw = await this.command<string>(["GET", key])
+    return raw ? (JSON.parse(raw) as CacheEntry<T>) : null
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>, ttlSeconds: number): Promise<void> {
+    await this.command(["SET", key, JSON.stringify(entry), "EX", Math.ceil(ttlSeconds)])
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command(["DEL", key])
+  }
+}
@@ -0,0 +1,38 @@
+import type { CacheEntry, CacheStore } from "./types"
+
+/** In-process LRU store, the default when no KV backend is configured */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { entry: CacheEntry<unknown>; expiresAt: number }>()
+
+  constructor(private maxEntries: number = 1000) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const item = this.entries.get(key)
+    if (!item) return null
+
+    if (item.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return null
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key)
+    this.entries.set(key, item)
+    return item.entry as CacheEntry<T>
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, { entry, expiresAt: Date.now() + ttlSeconds * 1000 })
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) break
+      this.entries.delete(oldest)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+}
@@ -0,0 +1,29 @@
+export interface CacheEntry<T> {
+  value: T
+  /** Epoch milliseconds when the value was computed */
+  storedAt: number
+}
+
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | null>
+  /** `ttlSeconds` is how long the backend should keep the entry at all */
+  set<T>(key: string, entry: CacheEntry<T>, ttlSeconds: number): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+export type CacheStatus = "hit" | "stale" | "miss"
+
+export interface CacheInfo {
+  status: CacheStatus
+  /** When the returned value was computed */
+  storedAt: string
+  ageSeconds: number
+  ttlSeconds: number
+}
+
+export interface CacheOptions {
+  /** Seconds a value is served as fresh */
+  ttlSeconds: number
+  /** Extra seconds a value may be served while it is refreshed in the background */
+  staleSeconds: number
+}
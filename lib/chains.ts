@@ -0,0 +1,62 @@
+export type ChainKey = "base" | "optimism" | "ethereum" | "arbitrum"
+
+export interface ChainConfig {
+  key: ChainKey
+  id: number
+  name: string
+  rpcUrl: string
+  explorerUrl: string
+  /** Multiplier applied to this chain's transaction count in the score */
+  weight: number
+}
+
+export const CHAINS: Record<ChainKey, ChainConfig> = {
+  base: {
+    key: "base",
+    id: 8453,
+    name: "Base",
+    rpcUrl: process.env.BASE_RPC_URL || "https://mainnet.base.org",
+    explorerUrl: "https://basescan.org",
+    weight: 1,
+  },
+  optimism: {
+    key: "optimism",
+    id: 10,
+    name: "Optimism",
+    rpcUrl: process.env.OPTIMISM_RPC_URL || "https://mainnet.optimism.io",
+    explorerUrl: "https://optimistic.etherscan.io",
+    weight: 0.75,
+  },
+  ethereum: {
+    key: "ethereum",
+    id: 1,
+    name: "Ethereum",
+    rpcUrl: process.env.ETHEREUM_RPC_URL || "https://eth.llamarpc.com",
+    explorerUrl: "https://etherscan.io",
+    weight: 1.5,
+  },
+  arbitrum: {
+    key: "arbitrum",
+    id: 42161,
+    name: "Arbitrum",
+    rpcUrl: process.env.ARBITRUM_RPC_URL || "https://arb1.arbitrum.io/rpc",
+    explorerUrl: "https://arbiscan.io",
+    weight: 0.75,
+  },
+}
+
+export function listChains(): ChainConfig[] {
+  return Object.values(CHAINS)
+}
+
+export function getChain(key: ChainKey): ChainConfig {
+  return CHAINS[key]
+}
+
+export function getChainById(id: number): ChainConfig | undefined {
+  return listChains().find((chain) => chain.id === id)
+}
+
+export function isChainKey(key: string): key is ChainKey {
+  return Object.hasOwn(CHAINS, key)
+}
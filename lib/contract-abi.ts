@@ -1,9 +1,34 @@
 export const REPUTATION_PASSPORT_ABI = [
   {
-    inputs: [{ internalType: "string", name: "_baseTokenURI", type: "string" }],
+    inputs: [
+      { internalType: "string", name: "_baseTokenURI", type: "string" },
+      { internalType: "address", name: "_mintSigner", type: "address" },
+    ],
     stateMutability: "nonpayable",
     type: "constructor",
   },
+  // OpenZeppelin v5 custom errors, so reverts decode to a name instead of raw data
+  {
+    inputs: [{ internalType: "address", name: "account", type: "address" }],
+    name: "OwnableUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    inputs: [{ internalType: "address", name: "receiver", type: "address" }],
+    name: "ERC721InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
+    name: "ERC721NonexistentToken",
+    type: "error",
+  },
+  { inputs: [], name: "ECDSAInvalidSignature", type: "error" },
+  {
+    inputs: [{ internalType: "uint256", name: "length", type: "uint256" }],
+    name: "ECDSAInvalidSignatureLength",
+    type: "error",
+  },
   {
     anonymous: false,
     inputs: [
@@ -16,6 +41,26 @@ export const REPUTATION_PASSPORT_ABI = [
     name: "PassportMinted",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "from", type: "address" },
+      { indexed: true, internalType: "address", name: "to", type: "address" },
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "newScore", type: "uint256" },
+      { indexed: false, internalType: "string", name: "newBadge", type: "string" },
+    ],
+    name: "PassportUpdated",
+    type: "event",
+  },
   {
     inputs: [
       { internalType: "address", name: "to", type: "address" },
@@ -28,6 +73,36 @@ export const REPUTATION_PASSPORT_ABI = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: "uint256", name: "fid", type: "uint256" },
+          { internalType: "address", name: "to", type: "address" },
+          { internalType: "uint256", name: "score", type: "uint256" },
+          { internalType: "string", name: "badge", type: "string" },
+          { internalType: "string", name: "scoringVersion", type: "string" },
+          { internalType: "uint256", name: "nonce", type: "uint256" },
+          { internalType: "uint256", name: "expiry", type: "uint256" },
+        ],
+        internalType: "struct ReputationPassport.MintVoucher",
+        name: "voucher",
+        type: "tuple",
+      },
+      { internalType: "bytes", name: "signature", type: "bytes" },
+    ],
+    name: "mintPassportWithVoucher",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "mintSigner",
+    outputs: [{ internalType: "address", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       { internalType: "uint256", name: "tokenId", type: "uint256" },
@@ -59,6 +134,40 @@ export const REPUTATION_PASSPORT_ABI = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    name: "passports",
+    outputs: [
+      { internalType: "uint256", name: "fid", type: "uint256" },
+      { internalType: "uint256", name: "score", type: "uint256" },
+      { internalType: "string", name: "badge", type: "string" },
+      { internalType: "uint256", name: "mintedAt", type: "uint256" },
+      { internalType: "uint256", name: "lastUpdated", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    name: "fidToToken",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "nextTokenId",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
+    name: "ownerOf",
+    outputs: [{ internalType: "address", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
     name: "tokenURI",
@@ -0,0 +1,85 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  UserRejectedRequestError,
+  decodeFunctionData,
+  type Hash,
+  type PublicClient,
+} from "viem"
+import { REPUTATION_PASSPORT_ABI } from "@/lib/contract-abi"
+
+/** ReputationPassport revert strings and custom errors, in user-facing words */
+const REVERT_MESSAGES: Record<string, string> = {
+  "Passport already exists for this FID": "This FID already has a passport.",
+  "Score must be <= 1000": "The score is out of range (max 1000).",
+  "Voucher expired": "The mint authorization expired. Please try minting again.",
+  "Voucher already used": "This mint authorization was already used. Please try minting again.",
+  "Invalid voucher signature": "The mint authorization wasn't signed by the passport signer.",
+  "No passport for this FID": "This FID has no passport yet.",
+  OwnableUnauthorizedAccount: "Only the contract owner can do this.",
+  ERC721InvalidReceiver: "The receiving wallet can't hold NFTs.",
+  ERC721NonexistentToken: "This passport token doesn't exist.",
+  ECDSAInvalidSignature: "The mint authorization signature is invalid.",
+  ECDSAInvalidSignatureLength: "The mint authorization signature is malformed.",
+}
+
+/** The contract's revert string or custom error name, when `error` is a decoded revert */
+export function getRevertReason(error: unknown): string | null {
+  if (!(error instanceof BaseError)) return null
+
+  const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError)
+  if (!(reverted instanceof ContractFunctionRevertedError)) return null
+
+  return reverted.reason ?? reverted.data?.errorName ?? null
+}
+
+/** A short message for any error thrown while simulating, sending or mining a passport transaction */
+export function describeContractError(error: unknown): string {
+  const reason = getRevertReason(error)
+  if (reason) {
+    return REVERT_MESSAGES[reason] ?? `Transaction would revert: ${reason}`
+  }
+
+  if (error instanceof BaseError) {
+    if (error.walk((e) => e instanceof UserRejectedRequestError)) {
+      return "Transaction was rejected in your wallet."
+    }
+    if (/insufficient funds/i.test(error.message)) {
+      return "Not enough ETH on Base to pay for gas."
+    }
+    return error.shortMessage
+  }
+
+  return error instanceof Error ? error.message : "Transaction failed"
+}
+
+/**
+ * Receipts don't carry revert data, so a reverted passport transaction is
+ * replayed against the state just before its block to recover the reason.
+ */
+export async function getTransactionRevertReason(client: PublicClient, hash: Hash): Promise<string | null> {
+  const [tx, receipt] = await Promise.all([
+    client.getTransaction({ hash }),
+    client.getTransactionReceipt({ hash }),
+  ])
+  if (!tx.to) return null
+
+  try {
+    const call = decodeFunctionData({ abi: REPUTATION_PASSPORT_ABI, data: tx.input })
+    // Only the contract's write functions send transactions worth replaying
+    if (call.functionName !== "mintPassport" && call.functionName !== "mintPassportWithVoucher" && call.functionName !== "updateScore") {
+      return null
+    }
+    await client.simulateContract({
+      address: tx.to,
+      abi: REPUTATION_PASSPORT_ABI,
+      functionName: call.functionName,
+      args: call.args,
+      account: tx.from,
+      blockNumber: receipt.blockNumber - BigInt(1),
+    })
+    return null
+  } catch (error) {
+    return describeContractError(error)
+  }
+}
@@ -0,0 +1,112 @@
+import { createPublicClient, http, type Address } from "viem"
+import { base } from "viem/chains"
+import { CHAINS } from "@/lib/chains"
+import { REPUTATION_PASSPORT_ABI } from "@/lib/contract-abi"
+import type { BadgeType } from "@/lib/types"
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000"
+
+/** Passport struct as stored by ReputationPassport, timestamps in unix seconds */
+export interface OnchainPassport {
+  tokenId: number
+  fid: number
+  score: number
+  badge: BadgeType
+  mintedAt: number
+  lastUpdated: number
+}
+
+export const publicClient = createPublicClient({
+  chain: base,
+  transport: http(CHAINS.base.rpcUrl),
+})
+
+/** Deployed ReputationPassport address, or null when not configured */
+export function getContractAddress(): Address | null {
+  const address = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS
+  if (!address || address === ZERO_ADDRESS) return null
+  return address as Address
+}
+
+export class ContractNotConfiguredError extends Error {
+  constructor() {
+    super("Contract address not configured. Please set NEXT_PUBLIC_CONTRACT_ADDRESS in your environment variables.")
+    this.name = "ContractNotConfiguredError"
+  }
+}
+
+/** Deployed ReputationPassport address, throws ContractNotConfiguredError when not configured */
+export function requireContractAddress(): Address {
+  const address = getContractAddress()
+  if (!address) {
+    throw new ContractNotConfiguredError()
+  }
+  return address
+}
+
+/** Reads `passports(tokenId)`, returns null for tokens that were never minted */
+export async function readPassport(tokenId: number): Promise<OnchainPassport | null> {
+  const [fid, score, badge, mintedAt, lastUpdated] = await publicClient.readContract({
+    address: requireContractAddress(),
+    abi: REPUTATION_PASSPORT_ABI,
+    functionName: "passports",
+    args: [BigInt(tokenId)],
+  })
+
+  if (mintedAt === BigInt(0)) {
+    return null
+  }
+
+  return {
+    tokenId,
+    fid: Number(fid),
+    score: Number(score),
+    badge: badge as BadgeType,
+    mintedAt: Number(mintedAt),
+    lastUpdated: Number(lastUpdated),
+  }
+}
+
+/** Highest token ID minted so far, token IDs run from 1 to this value */
+export async function readNextTokenId(): Promise<number> {
+  const nextTokenId = await publicClient.readContract({
+    address: requireContractAddress(),
+    abi: REPUTATION_PASSPORT_ABI,
+    functionName: "nextTokenId",
+  })
+  return Number(nextTokenId)
+}
+
+/**
+ * Reads the passport minted for a FID: `fidToToken` for the token ID, then
+ * `getPassportByFID`. Returns null when the FID has no passport.
+ */
+export async function readPassportByFid(fid: number): Promise<OnchainPassport | null> {
+  const address = requireContractAddress()
+  const tokenId = await publicClient.readContract({
+    address,
+    abi: REPUTATION_PASSPORT_ABI,
+    functionName: "fidToToken",
+    args: [BigInt(fid)],
+  })
+
+  if (tokenId === BigInt(0)) {
+    return null
+  }
+
+  const passport = await publicClient.readContract({
+    address,
+    abi: REPUTATION_PASSPORT_ABI,
+    functionName: "getPassportByFID",
+    args: [BigInt(fid)],
+  })
+
+  return {
+    tokenId: Number(tokenId),
+    fid,
+    score: Number(passport.score),
+    badge: passport.badge as BadgeType,
+    mintedAt: Number(passport.mintedAt),
+    lastUpdated: Number(passport.lastUpdated),
+  }
+}
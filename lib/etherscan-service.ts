@@ -1,4 +1,15 @@
-// Etherscan V2 API service for transaction tracking
+// Etherscan V2 API service, one instance per chain in the registry
+import { getChain, type ChainKey } from './chains'
+
+// One endpoint and key for every chain, selected with the chainid parameter
+const ETHERSCAN_API_URL = 'https://api.etherscan.io/v2/api'
+const MAX_RATE_LIMIT_RETRIES = 3
+const RATE_LIMIT_BACKOFF_MS = 1000
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
 export interface Transaction {
   blockNumber: string
   timeStamp: string
@@ -33,29 +44,39 @@ export interface TransactionHistory {
 
 export class EtherscanService {
   private apiKey: string
-  private baseUrl: string
+  private chainId: number
 
-  constructor(apiKey: string, network: 'mainnet' | 'base' = 'base') {
+  constructor(apiKey: string, network: ChainKey | 'mainnet' = 'base') {
     this.apiKey = apiKey
-    this.baseUrl = network === 'base' 
-      ? 'https://api.basescan.org/api'
-      : 'https://api.etherscan.io/api'
+    this.chainId = getChain(network === 'mainnet' ? 'ethereum' : network).id
   }
 
-  private async makeRequest<T>(params: Record<string, string>): Promise<T> {
-    const url = new URL(this.baseUrl)
+  private async makeRequest<T>(params: Record<string, string>, attempt: number = 0): Promise<T> {
+    const url = new URL(ETHERSCAN_API_URL)
+    url.searchParams.append('chainid', this.chainId.toString())
     Object.entries(params).forEach(([key, value]) => {
       url.searchParams.append(key, value)
     })
     url.searchParams.append('apikey', this.apiKey)
 
     const response = await fetch(url.toString())
-    if (!response.ok) {
+    const data: EtherscanResponse<T> | null = response.ok ? await response.json() : null
+
+    // Explorers answer rate limits with HTTP 429 or a NOTOK body
+    const rateLimited =
+      response.status === 429 || (typeof data?.result === 'string' && /rate limit/i.test(data.result))
+    if (rateLimited) {
+      if (attempt >= MAX_RATE_LIMIT_RETRIES) {
+        throw new Error('Etherscan API error: rate limit reached')
+      }
+      await sleep(RATE_LIMIT_BACKOFF_MS * 2 ** attempt)
+      return this.makeRequest<T>(params, attempt + 1)
+    }
+
+    if (!data) {
       throw new Error(`Etherscan API error: ${response.statusText}`)
     }
 
-    const data: EtherscanResponse<T> = await response.json()
-    
     if (data.status !== '1' && data.message !== 'No transactions found') {
       throw new Error(`Etherscan API error: ${data.message}`)
     }
@@ -192,16 +213,20 @@ export class EtherscanService {
   }
 }
 
-// Singleton instance
-let etherscanService: EtherscanService | null = null
+export function hasEtherscanApiKey(): boolean {
+  return Boolean(process.env.ETHERSCAN_API_KEY || process.env.NEXT_PUBLIC_ETHERSCAN_API_KEY)
+}
+
+// One instance per chain
+const etherscanServices: Partial<Record<ChainKey, EtherscanService>> = {}
 
-export function getEtherscanService(): EtherscanService {
-  if (!etherscanService) {
+export function getEtherscanService(chain: ChainKey = 'base'): EtherscanService {
+  if (!etherscanServices[chain]) {
     const apiKey = process.env.ETHERSCAN_API_KEY || process.env.NEXT_PUBLIC_ETHERSCAN_API_KEY
     if (!apiKey) {
       throw new Error('Etherscan API key not found in environment variables')
     }
-    etherscanService = new EtherscanService(apiKey)
+    etherscanServices[chain] = new EtherscanService(apiKey, chain)
   }
-  return etherscanService
+  return etherscanServices[chain]
 }
\ No newline at end of file
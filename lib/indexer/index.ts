@@ -0,0 +1,15 @@
+export { KvIndexerStore } from "./kv-store"
+export { MemoryIndexerStore } from "./memory-store"
+export { SqliteIndexerStore } from "./sqlite-store"
+export { IndexerNotConfiguredError, getIndexerStore, setIndexerStore } from "./store"
+export { getStartBlock, syncIndexer } from "./sync"
+export {
+  getIndexedPassport,
+  getIndexedPassportByFid,
+  getIndexerStatus,
+  getPassportHistory,
+  getPassportRank,
+  listIndexedPassports,
+  syncPassportIndex,
+} from "./queries"
+export type * from "./types"
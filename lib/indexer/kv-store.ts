@@ -0,0 +1,222 @@
+import type { Hash } from "viem"
+import { applyEvent, comparePassports, matchesQuery } from "./reducer"
+import type { IndexedBlock, IndexedPassport, IndexerStatus, IndexerStore, PassportEvent, PassportQuery } from "./types"
+
+const CURSOR_KEY = "indexer:cursor"
+const BLOCKS_KEY = "indexer:blocks"
+const EVENTS_KEY = "indexer:events"
+const PASSPORTS_KEY = "indexer:passports"
+const FIDS_KEY = "indexer:fids"
+
+// Event scores are blockNumber * LOG_INDEX_RANGE + logIndex, exact well past Base's block height
+const LOG_INDEX_RANGE = 1_000_000
+
+type Command = (string | number)[]
+
+function tokenEventsKey(tokenId: number): string {
+  return `indexer:events:${tokenId}`
+}
+
+function eventScore(event: PassportEvent): number {
+  return event.blockNumber * LOG_INDEX_RANGE + event.logIndex
+}
+
+function blockMember(block: IndexedBlock): string {
+  return `${block.number}:${block.hash}`
+}
+
+function parseBlock(member: string): IndexedBlock {
+  const [number, hash] = member.split(":")
+  return { number: Number(number), hash: hash as Hash }
+}
+
+function writePassport(passport: IndexedPassport): Command[] {
+  return [
+    ["HSET", PASSPORTS_KEY, passport.tokenId, JSON.stringify(passport)],
+    ["HSET", FIDS_KEY, passport.fid, passport.tokenId],
+  ]
+}
+
+/**
+ * Index in an Upstash-compatible Redis, for serverless hosts without a
+ * persistent disk. Events are sorted sets scored by chain position and
+ * passports a hash of JSON; batches and rollbacks are written in one
+ * MULTI/EXEC. Listing and ranking sort every passport in process, which suits
+ * collections up to a few thousand passports.
+ */
+export class KvIndexerStore implements IndexerStore {
+  constructor(
+    private url: string,
+    private token: string,
+  ) {}
+
+  private async command<T>(args: Command): Promise<T | null> {
+    const res = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(args),
+    })
+
+    if (!res.ok) {
+      throw new Error(`KV error: ${res.status} ${await res.text()}`)
+    }
+
+    const data: { result: T | null } = await res.json()
+    return data.result
+  }
+
+  private async transaction(commands: Command[]): Promise<void> {
+    const res = await fetch(`${this.url.replace(/\/$/, "")}/multi-exec`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(commands),
+    })
+
+    if (!res.ok) {
+      throw new Error(`KV error: ${res.status} ${await res.text()}`)
+    }
+
+    const results: { error?: string }[] = await res.json()
+    const failed = results.find((result) => result.error)
+    if (failed) {
+      throw new Error(`KV error: ${failed.error}`)
+    }
+  }
+
+  private async readPassports(tokenIds: number[]): Promise<Map<number, IndexedPassport>> {
+    const passports = new Map<number, IndexedPassport>()
+    if (tokenIds.length === 0) return passports
+
+    const raw = (await this.command<(string | null)[]>(["HMGET", PASSPORTS_KEY, ...tokenIds])) || []
+    raw.forEach((item, index) => {
+      if (item) passports.set(tokenIds[index], JSON.parse(item) as IndexedPassport)
+    })
+    return passports
+  }
+
+  private async readAllPassports(): Promise<IndexedPassport[]> {
+    const raw = (await this.command<string[]>(["HVALS", PASSPORTS_KEY])) || []
+    return raw.map((item) => JSON.parse(item) as IndexedPassport)
+  }
+
+  // Events for a token in chain order, up to the score `max` ("(" makes it exclusive)
+  private async readHistory(tokenId: number, max: string | number = "+inf"): Promise<PassportEvent[]> {
+    const raw = (await this.command<string[]>(["ZRANGE", tokenEventsKey(tokenId), "-inf", max, "BYSCORE"])) || []
+    return raw.map((item) => JSON.parse(item) as PassportEvent)
+  }
+
+  async getCursor(): Promise<IndexedBlock | null> {
+    const raw = await this.command<string>(["GET", CURSOR_KEY])
+    return raw ? (JSON.parse(raw) as IndexedBlock) : null
+  }
+
+  async listBlocks(blockNumber: number, limit: number): Promise<IndexedBlock[]> {
+    const raw =
+      (await this.command<string[]>(["ZRANGE", BLOCKS_KEY, blockNumber, "-inf", "BYSCORE", "REV", "LIMIT", 0, limit])) || []
+    return raw.map(parseBlock)
+  }
+
+  async applyBatch(events: PassportEvent[], blocks: IndexedBlock[], cursor: IndexedBlock): Promise<void> {
+    const passports = await this.readPassports([...new Set(events.map((event) => event.tokenId))])
+    const commands: Command[] = []
+
+    for (const event of events) {
+      const member = JSON.stringify(event)
+      commands.push(["ZADD", EVENTS_KEY, eventScore(event), member])
+      commands.push(["ZADD", tokenEventsKey(event.tokenId), eventScore(event), member])
+      const next = applyEvent(passports.get(event.tokenId) ?? null, event)
+      if (next) passports.set(event.tokenId, next)
+    }
+    for (const passport of passports.values()) {
+      commands.push(...writePassport(passport))
+    }
+    // One hash per block number, replacing whatever was stored for it
+    for (const block of [...blocks, cursor]) {
+      commands.push(["ZREMRANGEBYSCORE", BLOCKS_KEY, block.number, block.number])
+      commands.push(["ZADD", BLOCKS_KEY, block.number, blockMember(block)])
+    }
+    commands.push(["SET", CURSOR_KEY, JSON.stringify(cursor)])
+
+    await this.transaction(commands)
+  }
+
+  async rollback(blockNumber: number): Promise<void> {
+    const from = (blockNumber + 1) * LOG_INDEX_RANGE
+    const dropped = ((await this.command<string[]>(["ZRANGE", EVENTS_KEY, from, "+inf", "BYSCORE"])) || []).map(
+      (item) => JSON.parse(item) as PassportEvent,
+    )
+    const tokenIds = [...new Set(dropped.map((event) => event.tokenId))]
+    const current = await this.readPassports(tokenIds)
+
+    const commands: Command[] = [
+      ["ZREMRANGEBYSCORE", EVENTS_KEY, from, "+inf"],
+      ["ZREMRANGEBYSCORE", BLOCKS_KEY, `(${blockNumber}`, "+inf"],
+    ]
+
+    for (const tokenId of tokenIds) {
+      let passport: IndexedPassport | null = null
+      for (const event of await this.readHistory(tokenId, `(${from}`)) {
+        passport = applyEvent(passport, event)
+      }
+
+      commands.push(["ZREMRANGEBYSCORE", tokenEventsKey(tokenId), from, "+inf"])
+      if (passport) {
+        commands.push(...writePassport(passport))
+      } else {
+        commands.push(["HDEL", PASSPORTS_KEY, tokenId])
+        const previous = current.get(tokenId)
+        if (previous) commands.push(["HDEL", FIDS_KEY, previous.fid])
+      }
+    }
+
+    const [member] = (await this.command<string[]>(["ZRANGE", BLOCKS_KEY, blockNumber, blockNumber, "BYSCORE"])) || []
+    commands.push(member ? ["SET", CURSOR_KEY, JSON.stringify(parseBlock(member))] : ["DEL", CURSOR_KEY])
+
+    await this.transaction(commands)
+  }
+
+  async getPassport(tokenId: number): Promise<IndexedPassport | null> {
+    const raw = await this.command<string>(["HGET", PASSPORTS_KEY, tokenId])
+    return raw ? (JSON.parse(raw) as IndexedPassport) : null
+  }
+
+  async getPassportByFid(fid: number): Promise<IndexedPassport | null> {
+    const tokenId = await this.command<string>(["HGET", FIDS_KEY, fid])
+    return tokenId ? this.getPassport(Number(tokenId)) : null
+  }
+
+  async listPassports(query: PassportQuery = {}): Promise<{ passports: IndexedPassport[]; total: number }> {
+    const matching = (await this.readAllPassports()).filter((passport) => matchesQuery(passport, query)).sort(comparePassports)
+    const offset = query.offset ?? 0
+    return { passports: matching.slice(offset, offset + (query.limit ?? 50)), total: matching.length }
+  }
+
+  async getRank(tokenId: number, query: PassportQuery = {}): Promise<number | null> {
+    const passport = await this.getPassport(tokenId)
+    if (!passport || !matchesQuery(passport, query)) return null
+
+    const ahead = (await this.readAllPassports()).filter(
+      (other) => matchesQuery(other, query) && comparePassports(other, passport) < 0,
+    ).length
+    return ahead + 1
+  }
+
+  async getHistory(tokenId: number): Promise<PassportEvent[]> {
+    return this.readHistory(tokenId)
+  }
+
+  async getStatus(): Promise<IndexerStatus> {
+    const [cursor, passports, events] = await Promise.all([
+      this.getCursor(),
+      this.command<number>(["HLEN", PASSPORTS_KEY]),
+      this.command<number>(["ZCARD", EVENTS_KEY]),
+    ])
+    return { cursor, passports: passports ?? 0, events: events ?? 0 }
+  }
+}
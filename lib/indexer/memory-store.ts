@@ -0,0 +1,94 @@
+import type { Hash } from "viem"
+import { applyEvent, compareEvents, comparePassports, matchesQuery } from "./reducer"
+import type { IndexedBlock, IndexedPassport, IndexerStore, PassportEvent, PassportQuery } from "./types"
+
+/** In-process index, used when INDEXER_STORE=memory and for local development */
+export class MemoryIndexerStore implements IndexerStore {
+  private events: PassportEvent[] = []
+  private passports = new Map<number, IndexedPassport>()
+  private blocks = new Map<number, Hash>()
+  private cursor: IndexedBlock | null = null
+
+  async getCursor(): Promise<IndexedBlock | null> {
+    return this.cursor
+  }
+
+  async listBlocks(blockNumber: number, limit: number): Promise<IndexedBlock[]> {
+    return [...this.blocks]
+      .filter(([number]) => number <= blockNumber)
+      .sort(([a], [b]) => b - a)
+      .slice(0, limit)
+      .map(([number, hash]) => ({ number, hash }))
+  }
+
+  async applyBatch(events: PassportEvent[], blocks: IndexedBlock[], cursor: IndexedBlock): Promise<void> {
+    for (const event of events) {
+      this.events.push(event)
+      const next = applyEvent(this.passports.get(event.tokenId) ?? null, event)
+      if (next) this.passports.set(event.tokenId, next)
+    }
+    for (const block of [...blocks, cursor]) {
+      this.blocks.set(block.number, block.hash)
+    }
+    this.cursor = cursor
+  }
+
+  async rollback(blockNumber: number): Promise<void> {
+    const dropped = this.events.filter((event) => event.blockNumber > blockNumber)
+    this.events = this.events.filter((event) => event.blockNumber <= blockNumber)
+
+    for (const tokenId of new Set(dropped.map((event) => event.tokenId))) {
+      let passport: IndexedPassport | null = null
+      for (const event of this.events.filter((e) => e.tokenId === tokenId).sort(compareEvents)) {
+        passport = applyEvent(passport, event)
+      }
+      if (passport) {
+        this.passports.set(tokenId, passport)
+      } else {
+        this.passports.delete(tokenId)
+      }
+    }
+
+    for (const number of this.blocks.keys()) {
+      if (number > blockNumber) this.blocks.delete(number)
+    }
+    const hash = this.blocks.get(blockNumber)
+    this.cursor = hash ? { number: blockNumber, hash } : null
+  }
+
+  async getPassport(tokenId: number): Promise<IndexedPassport | null> {
+    return this.passports.get(tokenId) ?? null
+  }
+
+  async getPassportByFid(fid: number): Promise<IndexedPassport | null> {
+    for (const passport of this.passports.values()) {
+      if (passport.fid === fid) return passport
+    }
+    return null
+  }
+
+  async listPassports(query: PassportQuery = {}): Promise<{ passports: IndexedPassport[]; total: number }> {
+    const matching = [...this.passports.values()].filter((passport) => matchesQuery(passport, query)).sort(comparePassports)
+    const offset = query.offset ?? 0
+    return { passports: matching.slice(offset, offset + (query.limit ?? 50)), total: matching.length }
+  }
+
+  async getRank(tokenId: number, query: PassportQuery = {}): Promise<number | null> {
+    const passport = this.passports.get(tokenId)
+    if (!passport || !matchesQuery(passport, query)) return null
+
+    let ahead = 0
+    for (const other of this.passports.values()) {
+      if (matchesQuery(other, query) && comparePassports(other, passport) < 0) ahead++
+    }
+    return ahead + 1
+  }
+
+  async getHistory(tokenId: number): Promise<PassportEvent[]> {
+    return this.events.filter((event) => event.tokenId === tokenId).sort(compareEvents)
+  }
+
+  async getStatus() {
+    return { cursor: this.cursor, passports: this.passports.size, events: this.events.length }
+  }
+}
@@ -0,0 +1,33 @@
+import { getIndexerStore } from "./store"
+import { syncIndexer } from "./sync"
+import type { IndexedPassport, IndexerStatus, PassportEvent, PassportQuery, SyncResult } from "./types"
+
+export function syncPassportIndex(options: { maxBlocks?: number } = {}): Promise<SyncResult> {
+  return syncIndexer(getIndexerStore(), options)
+}
+
+export function getIndexedPassport(tokenId: number): Promise<IndexedPassport | null> {
+  return getIndexerStore().getPassport(tokenId)
+}
+
+export function getIndexedPassportByFid(fid: number): Promise<IndexedPassport | null> {
+  return getIndexerStore().getPassportByFid(fid)
+}
+
+/** Passports ranked by score, filtered by badge and mint date */
+export function listIndexedPassports(query: PassportQuery = {}): Promise<{ passports: IndexedPassport[]; total: number }> {
+  return getIndexerStore().listPassports(query)
+}
+
+export function getPassportRank(tokenId: number, query: Omit<PassportQuery, "limit" | "offset"> = {}): Promise<number | null> {
+  return getIndexerStore().getRank(tokenId, query)
+}
+
+/** Mint, update and transfer events for a token, oldest first */
+export function getPassportHistory(tokenId: number): Promise<PassportEvent[]> {
+  return getIndexerStore().getHistory(tokenId)
+}
+
+export function getIndexerStatus(): Promise<IndexerStatus> {
+  return getIndexerStore().getStatus()
+}
@@ -0,0 +1,37 @@
+import type { IndexedPassport, PassportEvent, PassportQuery } from "./types"
+
+/** Folds one event into a passport's state; events must arrive in chain order */
+export function applyEvent(passport: IndexedPassport | null, event: PassportEvent): IndexedPassport | null {
+  switch (event.type) {
+    case "minted":
+      return {
+        tokenId: event.tokenId,
+        fid: event.fid,
+        owner: event.owner,
+        score: event.score,
+        badge: event.badge,
+        mintedAt: event.timestamp,
+        lastUpdated: event.timestamp,
+      }
+    case "updated":
+      return passport ? { ...passport, score: event.score, badge: event.badge, lastUpdated: event.timestamp } : null
+    case "transfer":
+      return passport ? { ...passport, owner: event.to } : null
+  }
+}
+
+export function compareEvents(a: PassportEvent, b: PassportEvent): number {
+  return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+}
+
+/** Leaderboard order: highest score, then earliest mint, then lowest token ID */
+export function comparePassports(a: IndexedPassport, b: IndexedPassport): number {
+  return b.score - a.score || a.mintedAt - b.mintedAt || a.tokenId - b.tokenId
+}
+
+export function matchesQuery(passport: IndexedPassport, query: PassportQuery): boolean {
+  if (query.badge && passport.badge !== query.badge) return false
+  if (query.mintedFrom !== undefined && passport.mintedAt < query.mintedFrom) return false
+  if (query.mintedTo !== undefined && passport.mintedAt > query.mintedTo) return false
+  return true
+}
@@ -0,0 +1,218 @@
+import fs from "node:fs"
+import path from "node:path"
+import Database from "better-sqlite3"
+import type { Address, Hash } from "viem"
+import { applyEvent } from "./reducer"
+import type { IndexedBlock, IndexedPassport, IndexerStore, PassportEvent, PassportQuery } from "./types"
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    token_id INTEGER NOT NULL,
+    payload TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_token ON events (token_id, block_number, log_index);
+
+  CREATE TABLE IF NOT EXISTS passports (
+    token_id INTEGER PRIMARY KEY,
+    fid INTEGER NOT NULL,
+    owner TEXT NOT NULL,
+    score INTEGER NOT NULL,
+    badge TEXT NOT NULL,
+    minted_at INTEGER NOT NULL,
+    last_updated INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS passports_fid ON passports (fid);
+  CREATE INDEX IF NOT EXISTS passports_rank ON passports (score DESC, minted_at, token_id);
+
+  CREATE TABLE IF NOT EXISTS blocks (number INTEGER PRIMARY KEY, hash TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS cursor (id INTEGER PRIMARY KEY CHECK (id = 1), number INTEGER NOT NULL, hash TEXT NOT NULL);
+`
+
+interface PassportRow {
+  token_id: number
+  fid: number
+  owner: string
+  score: number
+  badge: string
+  minted_at: number
+  last_updated: number
+}
+
+function toPassport(row: PassportRow): IndexedPassport {
+  return {
+    tokenId: row.token_id,
+    fid: row.fid,
+    owner: row.owner as Address,
+    score: row.score,
+    badge: row.badge,
+    mintedAt: row.minted_at,
+    lastUpdated: row.last_updated,
+  }
+}
+
+// Builds the WHERE clause shared by listing, counting and ranking
+function whereClause(query: PassportQuery): { sql: string; params: (string | number)[] } {
+  const conditions: string[] = []
+  const params: (string | number)[] = []
+
+  if (query.badge) {
+    conditions.push("badge = ?")
+    params.push(query.badge)
+  }
+  if (query.mintedFrom !== undefined) {
+    conditions.push("minted_at >= ?")
+    params.push(query.mintedFrom)
+  }
+  if (query.mintedTo !== undefined) {
+    conditions.push("minted_at <= ?")
+    params.push(query.mintedTo)
+  }
+
+  return { sql: conditions.length ? `WHERE ${conditions.join(" AND ")}` : "", params }
+}
+
+/** Default indexer store, a single SQLite file at INDEXER_DB_PATH */
+export class SqliteIndexerStore implements IndexerStore {
+  private db: Database.Database
+
+  constructor(filename: string) {
+    fs.mkdirSync(path.dirname(filename), { recursive: true })
+    this.db = new Database(filename)
+    this.db.pragma("journal_mode = WAL")
+    this.db.exec(SCHEMA)
+  }
+
+  private readPassport(tokenId: number): IndexedPassport | null {
+    const row = this.db.prepare("SELECT * FROM passports WHERE token_id = ?").get(tokenId) as PassportRow | undefined
+    return row ? toPassport(row) : null
+  }
+
+  private writePassport(tokenId: number, passport: IndexedPassport | null) {
+    if (!passport) {
+      this.db.prepare("DELETE FROM passports WHERE token_id = ?").run(tokenId)
+      return
+    }
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO passports (token_id, fid, owner, score, badge, minted_at, last_updated)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(passport.tokenId, passport.fid, passport.owner, passport.score, passport.badge, passport.mintedAt, passport.lastUpdated)
+  }
+
+  private writeCursor(cursor: IndexedBlock | null) {
+    if (!cursor) {
+      this.db.prepare("DELETE FROM cursor").run()
+      return
+    }
+    this.db.prepare("INSERT OR REPLACE INTO cursor (id, number, hash) VALUES (1, ?, ?)").run(cursor.number, cursor.hash)
+  }
+
+  async getCursor(): Promise<IndexedBlock | null> {
+    const row = this.db.prepare("SELECT number, hash FROM cursor WHERE id = 1").get() as IndexedBlock | undefined
+    return row ?? null
+  }
+
+  async listBlocks(blockNumber: number, limit: number): Promise<IndexedBlock[]> {
+    return this.db
+      .prepare("SELECT number, hash FROM blocks WHERE number <= ? ORDER BY number DESC LIMIT ?")
+      .all(blockNumber, limit) as IndexedBlock[]
+  }
+
+  async applyBatch(events: PassportEvent[], blocks: IndexedBlock[], cursor: IndexedBlock): Promise<void> {
+    const insertEvent = this.db.prepare(
+      "INSERT OR REPLACE INTO events (block_number, log_index, token_id, payload) VALUES (?, ?, ?, ?)",
+    )
+    const insertBlock = this.db.prepare("INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)")
+
+    this.db.transaction(() => {
+      for (const event of events) {
+        insertEvent.run(event.blockNumber, event.logIndex, event.tokenId, JSON.stringify(event))
+        const next = applyEvent(this.readPassport(event.tokenId), event)
+        if (next) this.writePassport(event.tokenId, next)
+      }
+      for (const block of [...blocks, cursor]) {
+        insertBlock.run(block.number, block.hash)
+      }
+      this.writeCursor(cursor)
+    })()
+  }
+
+  async rollback(blockNumber: number): Promise<void> {
+    this.db.transaction(() => {
+      const tokenIds = this.db
+        .prepare("SELECT DISTINCT token_id FROM events WHERE block_number > ?")
+        .all(blockNumber) as { token_id: number }[]
+
+      this.db.prepare("DELETE FROM events WHERE block_number > ?").run(blockNumber)
+      this.db.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber)
+
+      for (const { token_id: tokenId } of tokenIds) {
+        let passport: IndexedPassport | null = null
+        for (const event of this.historySync(tokenId)) {
+          passport = applyEvent(passport, event)
+        }
+        this.writePassport(tokenId, passport)
+      }
+
+      const row = this.db.prepare("SELECT hash FROM blocks WHERE number = ?").get(blockNumber) as { hash: Hash } | undefined
+      this.writeCursor(row ? { number: blockNumber, hash: row.hash } : null)
+    })()
+  }
+
+  private historySync(tokenId: number): PassportEvent[] {
+    const rows = this.db
+      .prepare("SELECT payload FROM events WHERE token_id = ? ORDER BY block_number, log_index")
+      .all(tokenId) as { payload: string }[]
+    return rows.map((row) => JSON.parse(row.payload) as PassportEvent)
+  }
+
+  async getPassport(tokenId: number): Promise<IndexedPassport | null> {
+    return this.readPassport(tokenId)
+  }
+
+  async getPassportByFid(fid: number): Promise<IndexedPassport | null> {
+    const row = this.db.prepare("SELECT * FROM passports WHERE fid = ?").get(fid) as PassportRow | undefined
+    return row ? toPassport(row) : null
+  }
+
+  async listPassports(query: PassportQuery = {}): Promise<{ passports: IndexedPassport[]; total: number }> {
+    const { sql, params } = whereClause(query)
+    const rows = this.db
+      .prepare(`SELECT * FROM passports ${sql} ORDER BY score DESC, minted_at, token_id LIMIT ? OFFSET ?`)
+      .all(...params, query.limit ?? 50, query.offset ?? 0) as PassportRow[]
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM passports ${sql}`).get(...params) as { total: number }
+    return { passports: rows.map(toPassport), total }
+  }
+
+  async getRank(tokenId: number, query: PassportQuery = {}): Promise<number | null> {
+    const { sql, params } = whereClause(query)
+    const passport = this.db
+      .prepare(`SELECT * FROM passports ${sql ? `${sql} AND` : "WHERE"} token_id = ?`)
+      .get(...params, tokenId) as PassportRow | undefined
+    if (!passport) return null
+
+    const ahead = this.db
+      .prepare(
+        `SELECT COUNT(*) AS ahead FROM passports ${sql ? `${sql} AND` : "WHERE"}
+         (score > ? OR (score = ? AND (minted_at < ? OR (minted_at = ? AND token_id < ?))))`,
+      )
+      .get(...params, passport.score, passport.score, passport.minted_at, passport.minted_at, passport.token_id) as {
+      ahead: number
+    }
+    return ahead.ahead + 1
+  }
+
+  async getHistory(tokenId: number): Promise<PassportEvent[]> {
+    return this.historySync(tokenId)
+  }
+
+  async getStatus() {
+    const { passports } = this.db.prepare("SELECT COUNT(*) AS passports FROM passports").get() as { passports: number }
+    const { events } = this.db.prepare("SELECT COUNT(*) AS events FROM events").get() as { events: number }
+    return { cursor: await this.getCursor(), passports, events }
+  }
+}
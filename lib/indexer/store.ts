@@ -0,0 +1,60 @@
+import path from "node:path"
+import { KvIndexerStore } from "./kv-store"
+import { MemoryIndexerStore } from "./memory-store"
+import { SqliteIndexerStore } from "./sqlite-store"
+import type { IndexerStore } from "./types"
+
+let indexerStore: IndexerStore | null = null
+
+export class IndexerNotConfiguredError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "IndexerNotConfiguredError"
+  }
+}
+
+// Production needs an explicit path on storage that survives restarts and is shared
+// by every instance, serverless /tmp is neither
+function getDbPath(): string {
+  if (process.env.INDEXER_DB_PATH) return process.env.INDEXER_DB_PATH
+  if (process.env.NODE_ENV === "production") {
+    throw new IndexerNotConfiguredError(
+      "Indexer database not configured. Please set INDEXER_DB_PATH to a file on persistent storage, or INDEXER_STORE=kv.",
+    )
+  }
+  return path.join(process.cwd(), ".data", "indexer.sqlite")
+}
+
+function createKvStore(): IndexerStore {
+  const url = process.env.KV_REST_API_URL
+  const token = process.env.KV_REST_API_TOKEN
+  if (!url || !token) {
+    throw new IndexerNotConfiguredError("INDEXER_STORE=kv requires KV_REST_API_URL and KV_REST_API_TOKEN.")
+  }
+  return new KvIndexerStore(url, token)
+}
+
+/**
+ * SQLite at INDEXER_DB_PATH by default, Redis with INDEXER_STORE=kv for
+ * serverless hosts, or in-memory with INDEXER_STORE=memory. Throws
+ * IndexerNotConfiguredError when the selected store is missing its settings.
+ */
+export function getIndexerStore(): IndexerStore {
+  if (!indexerStore) {
+    switch (process.env.INDEXER_STORE) {
+      case "memory":
+        indexerStore = new MemoryIndexerStore()
+        break
+      case "kv":
+        indexerStore = createKvStore()
+        break
+      default:
+        indexerStore = new SqliteIndexerStore(getDbPath())
+    }
+  }
+  return indexerStore
+}
+
+export function setIndexerStore(store: IndexerStore) {
+  indexerStore = store
+}
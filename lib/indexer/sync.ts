@@ -0,0 +1,150 @@
+import type { AbiEvent, Address, Hash } from "viem"
+import { mapWithConcurrency } from "@/lib/concurrency"
+import { publicClient, requireContractAddress } from "@/lib/contract"
+import { REPUTATION_PASSPORT_ABI } from "@/lib/contract-abi"
+import type { IndexedBlock, IndexerStore, PassportEvent, SyncResult } from "./types"
+
+const DEFAULT_CHUNK_SIZE = 2000
+const DEFAULT_CONFIRMATIONS = 3
+const DEFAULT_MAX_BLOCKS = 50_000
+const MAX_ANCESTOR_CHECKS = 64
+const BLOCK_CONCURRENCY = 5
+
+const INDEXED_EVENTS = REPUTATION_PASSPORT_ABI.filter(
+  (item): item is Extract<(typeof REPUTATION_PASSPORT_ABI)[number], { type: "event" }> =>
+    item.type === "event" && ["PassportMinted", "PassportUpdated", "Transfer"].includes(item.name),
+)
+
+/** The parts of a decoded log the indexer uses */
+interface DecodedLog {
+  eventName: string
+  args: Record<string, unknown>
+  blockNumber: bigint
+  blockHash: Hash
+  logIndex: number
+  transactionHash: Hash
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+/** Block the contract was deployed in; indexing starts here */
+export function getStartBlock(): number {
+  return envNumber("INDEXER_START_BLOCK", 0)
+}
+
+async function getBlockHash(blockNumber: number): Promise<Hash> {
+  const block = await publicClient.getBlock({ blockNumber: BigInt(blockNumber) })
+  return block.hash
+}
+
+// Fetches logs for [fromBlock, toBlock], halving the range when the RPC rejects it as too large
+async function fetchLogs(address: Address, fromBlock: number, toBlock: number): Promise<DecodedLog[]> {
+  try {
+    const logs = await publicClient.getLogs({
+      address,
+      events: INDEXED_EVENTS as readonly AbiEvent[],
+      fromBlock: BigInt(fromBlock),
+      toBlock: BigInt(toBlock),
+      strict: true,
+    })
+    return logs as unknown as DecodedLog[]
+  } catch (error) {
+    if (fromBlock === toBlock) throw error
+    const middle = Math.floor((fromBlock + toBlock) / 2)
+    return [...(await fetchLogs(address, fromBlock, middle)), ...(await fetchLogs(address, middle + 1, toBlock))]
+  }
+}
+
+async function toEvents(logs: DecodedLog[]): Promise<{ events: PassportEvent[]; blocks: IndexedBlock[] }> {
+  const blockNumbers = [...new Set(logs.map((log) => Number(log.blockNumber)))]
+  const timestamps = new Map<number, number>()
+  const blocks = await mapWithConcurrency(blockNumbers, BLOCK_CONCURRENCY, async (number) => {
+    const block = await publicClient.getBlock({ blockNumber: BigInt(number) })
+    timestamps.set(number, Number(block.timestamp))
+    return { number, hash: block.hash }
+  })
+
+  const events: PassportEvent[] = []
+  for (const log of logs) {
+    const { args } = log
+    const meta = {
+      tokenId: Number(args.tokenId),
+      blockNumber: Number(log.blockNumber),
+      blockHash: log.blockHash,
+      logIndex: log.logIndex,
+      txHash: log.transactionHash,
+      timestamp: timestamps.get(Number(log.blockNumber))!,
+    }
+
+    if (log.eventName === "PassportMinted") {
+      events.push({
+        ...meta,
+        type: "minted",
+        owner: args.user as Address,
+        fid: Number(args.fid),
+        score: Number(args.score),
+        badge: args.badge as string,
+      })
+    } else if (log.eventName === "PassportUpdated") {
+      events.push({ ...meta, type: "updated", score: Number(args.newScore), badge: args.newBadge as string })
+    } else if (log.eventName === "Transfer") {
+      events.push({ ...meta, type: "transfer", from: args.from as Address, to: args.to as Address })
+    }
+  }
+
+  return { events, blocks }
+}
+
+/**
+ * Walks back over the stored block hashes (every event block and chunk
+ * boundary) from `fromBlock` to the newest one that still matches the chain.
+ * Falls back to just before the start block, forcing a full reindex, when
+ * none of the last MAX_ANCESTOR_CHECKS stored blocks match.
+ */
+async function findCommonAncestor(store: IndexerStore, fromBlock: number): Promise<number> {
+  for (const block of await store.listBlocks(fromBlock, MAX_ANCESTOR_CHECKS)) {
+    if (block.number < getStartBlock()) break
+    if (block.hash === (await getBlockHash(block.number))) return block.number
+  }
+  return getStartBlock() - 1
+}
+
+/**
+ * Indexes PassportMinted, PassportUpdated and Transfer logs from the cursor
+ * up to `confirmations` blocks behind the head, at most `maxBlocks` per call.
+ * A changed hash at the cursor rolls the store back to the common ancestor first.
+ */
+export async function syncIndexer(
+  store: IndexerStore,
+  options: { maxBlocks?: number } = {},
+): Promise<SyncResult> {
+  const contractAddress = requireContractAddress()
+
+  const chunkSize = envNumber("INDEXER_CHUNK_SIZE", DEFAULT_CHUNK_SIZE) || DEFAULT_CHUNK_SIZE
+  const confirmations = envNumber("INDEXER_CONFIRMATIONS", DEFAULT_CONFIRMATIONS)
+  const head = Number(await publicClient.getBlockNumber()) - confirmations
+
+  let reorgedTo: number | null = null
+  let cursor = await store.getCursor()
+  if (cursor && cursor.hash !== (await getBlockHash(cursor.number))) {
+    reorgedTo = await findCommonAncestor(store, cursor.number - 1)
+    await store.rollback(reorgedTo)
+    cursor = await store.getCursor()
+  }
+
+  const fromBlock = cursor ? cursor.number + 1 : getStartBlock()
+  const toBlock = Math.min(head, fromBlock + (options.maxBlocks ?? DEFAULT_MAX_BLOCKS) - 1)
+  let indexed = 0
+
+  for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+    const end = Math.min(start + chunkSize - 1, toBlock)
+    const { events, blocks } = await toEvents(await fetchLogs(contractAddress, start, end))
+    await store.applyBatch(events, blocks, { number: end, hash: await getBlockHash(end) })
+    indexed += events.length
+  }
+
+  return { fromBlock, toBlock, events: indexed, reorgedTo, caughtUp: toBlock >= head }
+}
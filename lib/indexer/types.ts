@@ -0,0 +1,100 @@
+import type { Address, Hash } from "viem"
+
+/** Where a log came from, shared by every indexed event */
+export interface EventMeta {
+  tokenId: number
+  blockNumber: number
+  blockHash: Hash
+  logIndex: number
+  txHash: Hash
+  /** Block timestamp, unix seconds */
+  timestamp: number
+}
+
+export interface MintedEvent extends EventMeta {
+  type: "minted"
+  owner: Address
+  fid: number
+  score: number
+  badge: string
+}
+
+export interface UpdatedEvent extends EventMeta {
+  type: "updated"
+  score: number
+  badge: string
+}
+
+export interface TransferEvent extends EventMeta {
+  type: "transfer"
+  from: Address
+  to: Address
+}
+
+export type PassportEvent = MintedEvent | UpdatedEvent | TransferEvent
+
+/** Current state of a passport, folded from its events */
+export interface IndexedPassport {
+  tokenId: number
+  fid: number
+  owner: Address
+  score: number
+  badge: string
+  /** Unix seconds */
+  mintedAt: number
+  /** Unix seconds */
+  lastUpdated: number
+}
+
+export interface IndexedBlock {
+  number: number
+  hash: Hash
+}
+
+export interface PassportQuery {
+  badge?: string
+  /** Unix seconds, inclusive */
+  mintedFrom?: number
+  /** Unix seconds, inclusive */
+  mintedTo?: number
+  limit?: number
+  offset?: number
+}
+
+export interface IndexerStatus {
+  /** Last fully indexed block, null before the first sync */
+  cursor: IndexedBlock | null
+  passports: number
+  events: number
+}
+
+/**
+ * Persistence for the indexer. Passports are ranked by score, then earliest
+ * mint, then token ID.
+ */
+export interface IndexerStore {
+  getCursor(): Promise<IndexedBlock | null>
+  /** Stored block hashes at or below `blockNumber`, newest first */
+  listBlocks(blockNumber: number, limit: number): Promise<IndexedBlock[]>
+  /** Stores events (in chain order) and block hashes, then moves the cursor, atomically */
+  applyBatch(events: PassportEvent[], blocks: IndexedBlock[], cursor: IndexedBlock): Promise<void>
+  /** Drops everything after `blockNumber` and rebuilds the affected passports */
+  rollback(blockNumber: number): Promise<void>
+
+  getPassport(tokenId: number): Promise<IndexedPassport | null>
+  getPassportByFid(fid: number): Promise<IndexedPassport | null>
+  listPassports(query?: PassportQuery): Promise<{ passports: IndexedPassport[]; total: number }>
+  /** 1-based position by score among passports matching `query`, null if not indexed or filtered out */
+  getRank(tokenId: number, query?: Omit<PassportQuery, "limit" | "offset">): Promise<number | null>
+  getHistory(tokenId: number): Promise<PassportEvent[]>
+  getStatus(): Promise<IndexerStatus>
+}
+
+export interface SyncResult {
+  fromBlock: number
+  toBlock: number
+  events: number
+  /** Block the index was rolled back to after a reorg, if one was detected */
+  reorgedTo: number | null
+  caughtUp: boolean
+}
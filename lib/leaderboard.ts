@@ -0,0 +1,80 @@
+import { NeynarApiError, fetchUsersByFid, hasNeynarApiKey } from "@/lib/neynar"
+import { getIndexedPassportByFid, getPassportRank, listIndexedPassports } from "@/lib/indexer"
+import type { IndexedPassport, PassportQuery } from "@/lib/indexer"
+
+export const DEFAULT_LEADERBOARD_PAGE_SIZE = 25
+// Neynar's user/bulk endpoint accepts at most 100 FIDs
+export const MAX_LEADERBOARD_PAGE_SIZE = 100
+
+export interface LeaderboardEntry extends IndexedPassport {
+  rank: number
+  username?: string
+  displayName?: string
+  pfpUrl?: string
+}
+
+export interface LeaderboardFilters {
+  badge?: string
+  /** Unix seconds, inclusive */
+  mintedFrom?: number
+  mintedTo?: number
+}
+
+export interface Leaderboard {
+  entries: LeaderboardEntry[]
+  total: number
+  page: number
+  pageSize: number
+  /** The viewer's passport and rank under the same filters, null when they have none or it's filtered out */
+  viewer: LeaderboardEntry | null
+}
+
+type Profile = Pick<LeaderboardEntry, "username" | "displayName" | "pfpUrl">
+
+/** Profiles for the FIDs on a page; the leaderboard still renders without them */
+async function loadProfiles(fids: number[]): Promise<Map<number, Profile>> {
+  const profiles = new Map<number, Profile>()
+  if (fids.length === 0 || !hasNeynarApiKey()) return profiles
+
+  try {
+    for (const user of await fetchUsersByFid(fids)) {
+      profiles.set(user.fid, { username: user.username, displayName: user.display_name, pfpUrl: user.pfp_url })
+    }
+  } catch (error) {
+    if (!(error instanceof NeynarApiError)) throw error
+    console.error("Failed to load leaderboard profiles:", error)
+  }
+  return profiles
+}
+
+/**
+ * One page of indexed passports ranked by score, plus the viewer's own rank
+ * when `viewerFid` has a passport matching the filters.
+ */
+export async function getLeaderboard(
+  filters: LeaderboardFilters,
+  options: { page: number; pageSize: number; viewerFid?: number },
+): Promise<Leaderboard> {
+  const query: PassportQuery = { ...filters }
+  const offset = (options.page - 1) * options.pageSize
+  const [{ passports, total }, viewerPassport] = await Promise.all([
+    listIndexedPassports({ ...query, limit: options.pageSize, offset }),
+    options.viewerFid ? getIndexedPassportByFid(options.viewerFid) : null,
+  ])
+
+  const viewerRank = viewerPassport ? await getPassportRank(viewerPassport.tokenId, query) : null
+  const fids = passports.map((passport) => passport.fid)
+  if (viewerPassport && viewerRank && !fids.includes(viewerPassport.fid)) fids.push(viewerPassport.fid)
+  const profiles = await loadProfiles(fids)
+
+  return {
+    entries: passports.map((passport, index) => ({ ...passport, ...profiles.get(passport.fid), rank: offset + index + 1 })),
+    total,
+    page: options.page,
+    pageSize: options.pageSize,
+    viewer:
+      viewerPassport && viewerRank
+        ? { ...viewerPassport, ...profiles.get(viewerPassport.fid), rank: viewerRank }
+        : null,
+  }
+}
@@ -0,0 +1,52 @@
+import { bytesToHex, type Address, type Hex } from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+import { MINT_VOUCHER_TYPES, getMintVoucherDomain, type MintVoucher } from "@/lib/mint-voucher"
+
+const DEFAULT_VOUCHER_TTL_SECONDS = 900
+
+export function hasMintSigner(): boolean {
+  return Boolean(process.env.MINT_SIGNER_PRIVATE_KEY)
+}
+
+function getVoucherTtlSeconds(): number {
+  const ttl = Number(process.env.MINT_VOUCHER_TTL_SECONDS)
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_VOUCHER_TTL_SECONDS
+}
+
+function randomNonce(): bigint {
+  return BigInt(bytesToHex(crypto.getRandomValues(new Uint8Array(32))))
+}
+
+/**
+ * Signs a single-use mint voucher with MINT_SIGNER_PRIVATE_KEY. The contract
+ * only mints vouchers signed by its configured mintSigner, so the score and
+ * badge can't be chosen by the caller.
+ */
+export async function signMintVoucher(
+  verifyingContract: Address,
+  input: { fid: number; to: Address; score: number; badge: string; scoringVersion: string },
+): Promise<{ voucher: MintVoucher; signature: Hex }> {
+  const privateKey = process.env.MINT_SIGNER_PRIVATE_KEY
+  if (!privateKey) {
+    throw new Error("Mint signer not configured. Please set MINT_SIGNER_PRIVATE_KEY in your environment variables.")
+  }
+
+  const voucher: MintVoucher = {
+    fid: BigInt(input.fid),
+    to: input.to,
+    score: BigInt(input.score),
+    badge: input.badge,
+    scoringVersion: input.scoringVersion,
+    nonce: randomNonce(),
+    expiry: BigInt(Math.floor(Date.now() / 1000) + getVoucherTtlSeconds()),
+  }
+
+  const signature = await privateKeyToAccount(privateKey as Hex).signTypedData({
+    domain: getMintVoucherDomain(verifyingContract),
+    types: MINT_VOUCHER_TYPES,
+    primaryType: "MintVoucher",
+    message: voucher,
+  })
+
+  return { voucher, signature }
+}
@@ -0,0 +1,92 @@
+// Voucher types and helpers shared by the mint route and the browser, signing lives in lib/mint-signer
+import type { Address, Hex, PublicClient } from "viem"
+import { base } from "viem/chains"
+import { REPUTATION_PASSPORT_ABI } from "@/lib/contract-abi"
+import { describeContractError, getRevertReason } from "@/lib/contract-errors"
+
+/** EIP-712 types for ReputationPassport.MintVoucher, field order must match the contract */
+export const MINT_VOUCHER_TYPES = {
+  MintVoucher: [
+    { name: "fid", type: "uint256" },
+    { name: "to", type: "address" },
+    { name: "score", type: "uint256" },
+    { name: "badge", type: "string" },
+    { name: "scoringVersion", type: "string" },
+    { name: "nonce", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+  ],
+} as const
+
+export interface MintVoucher {
+  fid: bigint
+  to: Address
+  score: bigint
+  badge: string
+  scoringVersion: string
+  nonce: bigint
+  expiry: bigint
+}
+
+/** JSON-safe form of a voucher, uint256 fields as decimal strings */
+export type SerializedMintVoucher = { [K in keyof MintVoucher]: MintVoucher[K] extends bigint ? string : MintVoucher[K] }
+
+export function getMintVoucherDomain(verifyingContract: Address) {
+  return {
+    name: "Farcaster Reputation Passport",
+    version: "1",
+    chainId: base.id,
+    verifyingContract,
+  } as const
+}
+
+export function serializeMintVoucher(voucher: MintVoucher): SerializedMintVoucher {
+  return {
+    ...voucher,
+    fid: voucher.fid.toString(),
+    score: voucher.score.toString(),
+    nonce: voucher.nonce.toString(),
+    expiry: voucher.expiry.toString(),
+  }
+}
+
+export function deserializeMintVoucher(voucher: SerializedMintVoucher): MintVoucher {
+  return {
+    ...voucher,
+    fid: BigInt(voucher.fid),
+    score: BigInt(voucher.score),
+    nonce: BigInt(voucher.nonce),
+    expiry: BigInt(voucher.expiry),
+  }
+}
+
+export type MintPreflight =
+  | { ok: true; gas: bigint; maxFeePerGas: bigint; feeWei: bigint }
+  | { ok: false; reason: string; error: string }
+
+/**
+ * Simulates `mintPassportWithVoucher` from `account` and estimates its gas and
+ * fee, so reverts surface before the wallet is prompted. Only contract reverts
+ * are returned as `ok: false`, RPC and network errors are rethrown.
+ */
+export async function preflightMint(
+  client: Pick<PublicClient, "simulateContract" | "estimateContractGas" | "estimateFeesPerGas">,
+  params: { contractAddress: Address; voucher: MintVoucher; signature: Hex; account: Address },
+): Promise<MintPreflight> {
+  const call = {
+    address: params.contractAddress,
+    abi: REPUTATION_PASSPORT_ABI,
+    functionName: "mintPassportWithVoucher",
+    args: [params.voucher, params.signature],
+    account: params.account,
+  } as const
+
+  try {
+    await client.simulateContract(call)
+    const [gas, fees] = await Promise.all([client.estimateContractGas(call), client.estimateFeesPerGas()])
+    return { ok: true, gas, maxFeePerGas: fees.maxFeePerGas, feeWei: gas * fees.maxFeePerGas }
+  } catch (error) {
+    const reason = getRevertReason(error)
+    if (!reason) throw error
+    return { ok: false, reason, error: describeContractError(error) }
+  }
+}
@@ -0,0 +1,241 @@
+import { listChains } from "@/lib/chains"
+import type { OnchainActivity } from "@/lib/onchain"
+import type { ScoreInputs } from "@/lib/passport-service"
+import type { UserActivity } from "@/lib/types"
+
+export type MockPersonaId = "og" | "whale" | "onchain" | "builder" | "active" | "newcomer"
+
+type Range = [min: number, max: number]
+
+export interface MockPersona {
+  id: MockPersonaId
+  label: string
+  bio: string
+  followers: Range
+  following: Range
+  casts: Range
+  ageDays: Range
+  txCount: Range
+  activeDays: Range
+  contractsDeployed: Range
+  verifiedAddresses: Range
+  /** Reactions received per cast */
+  engagementRate: Range
+  powerBadge: boolean
+}
+
+// Fixtures used when NEYNAR_API_KEY is not set. The same FID always
+// produces the same profile, which then goes through the real scoring path.
+export const MOCK_PERSONAS: Record<MockPersonaId, MockPersona> = {
+  og: {
+    id: "og",
+    label: "OG",
+    bio: "Early Farcaster user, here since the beginning",
+    followers: [3000, 12000],
+    following: [300, 1200],
+    casts: [1200, 4000],
+    ageDays: [700, 1200],
+    txCount: [200, 900],
+    activeDays: [80, 250],
+    contractsDeployed: [0, 3],
+    verifiedAddresses: [1, 3],
+    engagementRate: [8, 20],
+    powerBadge: true,
+  },
+  whale: {
+    id: "whale",
+    label: "Whale",
+    bio: "Big audience, picks the moments to post",
+    followers: [10000, 80000],
+    following: [500, 2000],
+    // Below the Active and Onchain thresholds, which outrank Whale
+    casts: [300, 1000],
+    ageDays: [300, 900],
+    txCount: [100, 500],
+    activeDays: [50, 200],
+    contractsDeployed: [0, 2],
+    verifiedAddresses: [1, 2],
+    engagementRate: [10, 20],
+    powerBadge: false,
+  },
+  onchain: {
+    id: "onchain",
+    label: "Onchain",
+    bio: "Lives on Base, casts in between transactions",
+    followers: [200, 2000],
+    following: [200, 1000],
+    casts: [100, 600],
+    ageDays: [200, 700],
+    txCount: [600, 2000],
+    activeDays: [150, 400],
+    contractsDeployed: [0, 5],
+    verifiedAddresses: [1, 2],
+    engagementRate: [1, 6],
+    powerBadge: false,
+  },
+  builder: {
+    id: "builder",
+    label: "Builder",
+    bio: "Shipping frames and contracts",
+    followers: [300, 3000],
+    following: [200, 800],
+    casts: [200, 900],
+    ageDays: [150, 600],
+    txCount: [100, 450],
+    activeDays: [60, 200],
+    contractsDeployed: [3, 15],
+    verifiedAddresses: [3, 5],
+    engagementRate: [2, 8],
+    powerBadge: false,
+  },
+  active: {
+    id: "active",
+    label: "Active",
+    bio: "Always in the replies",
+    followers: [500, 4000],
+    following: [400, 1500],
+    casts: [1100, 3000],
+    ageDays: [200, 600],
+    txCount: [20, 300],
+    activeDays: [10, 80],
+    contractsDeployed: [0, 1],
+    verifiedAddresses: [1, 2],
+    engagementRate: [2, 10],
+    powerBadge: false,
+  },
+  newcomer: {
+    id: "newcomer",
+    label: "Newcomer",
+    bio: "Farcaster user exploring the ecosystem",
+    followers: [0, 150],
+    following: [10, 300],
+    casts: [0, 80],
+    ageDays: [1, 90],
+    txCount: [0, 40],
+    activeDays: [0, 15],
+    contractsDeployed: [0, 0],
+    verifiedAddresses: [0, 1],
+    engagementRate: [0, 2],
+    powerBadge: false,
+  },
+}
+
+export function isMockPersonaId(id: string): id is MockPersonaId {
+  return Object.hasOwn(MOCK_PERSONAS, id)
+}
+
+// mulberry32: small, fast and good enough for fixtures
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function mockAddress(random: () => number): string {
+  let hex = ""
+  for (let i = 0; i < 40; i++) {
+    hex += Math.floor(random() * 16).toString(16)
+  }
+  return `0x${hex}`
+}
+
+/** Persona a FID maps to when none is requested explicitly */
+export function getMockPersonaForFid(fid: number): MockPersonaId {
+  // The first FIDs are the protocol founders
+  if (fid >= 1 && fid <= 3) return "og"
+
+  const weighted: MockPersonaId[] = ["newcomer", "newcomer", "newcomer", "active", "active", "builder", "onchain", "whale", "og"]
+  return weighted[Math.floor(createRandom(fid)() * weighted.length)]
+}
+
+export function getMockScoreInputs(fid: number, personaId: MockPersonaId = getMockPersonaForFid(fid)): ScoreInputs {
+  const persona = MOCK_PERSONAS[personaId]
+  // Offset the seed so the persona pick and the stats don't share a sequence
+  const random = createRandom(fid * 2654435761 + personaId.length)
+  const pick = ([min, max]: Range) => Math.floor(min + random() * (max - min + 1))
+
+  const followers = pick(persona.followers)
+  const following = pick(persona.following)
+  const castCount = pick(persona.casts)
+  const ageDays = pick(persona.ageDays)
+  const txCount = pick(persona.txCount)
+  const activeDays = pick(persona.activeDays)
+  const contractsDeployed = pick(persona.contractsDeployed)
+  const engagementRate = Number.parseFloat(
+    (persona.engagementRate[0] + random() * (persona.engagementRate[1] - persona.engagementRate[0])).toFixed(1),
+  )
+
+  const custody = mockAddress(random)
+  const verifiedAddresses = Array.from({ length: pick(persona.verifiedAddresses) }, () => mockAddress(random))
+
+  const replies = Math.floor(castCount * 0.4)
+  const casts = castCount - replies
+  const reactionsReceived = Math.round(castCount * engagementRate)
+  const recastsReceived = Math.round(reactionsReceived * 0.2)
+  const activity: UserActivity = {
+    windowDays: 365,
+    casts,
+    replies,
+    likesReceived: reactionsReceived - recastsReceived,
+    recastsReceived,
+    repliesReceived: Math.round(castCount * engagementRate * 0.3),
+    reactionsReceived,
+    engagementRate,
+    truncated: false,
+  }
+
+  // Persona stats are the Base activity; the other registry chains add 30% on top
+  const chains = listChains()
+  const chainActivity = chains.map((chain) => {
+    const isBase = chain.key === "base"
+    const share = isBase ? 1 : 0.3 / (chains.length - 1)
+    return {
+      chain: chain.key,
+      chainId: chain.id,
+      name: chain.name,
+      txCount: Math.round(txCount * share),
+      contractsDeployed: isBase ? contractsDeployed : 0,
+      activeDays: Math.round(activeDays * share),
+    }
+  })
+  const onchain: OnchainActivity = {
+    addresses: [custody, ...verifiedAddresses],
+    chains: chainActivity,
+    txCount: Math.round(chainActivity.reduce((total, activity, index) => total + activity.txCount * chains[index].weight, 0)),
+    contractsDeployed,
+    // Days on other chains overlap with Base
+    activeDays,
+  }
+
+  return {
+    fid,
+    username: `${personaId}${fid}`,
+    displayName: `${persona.label} ${fid}`,
+    pfpUrl: `https://api.dicebear.com/7.x/avataaars/svg?seed=${fid}`,
+    bio: persona.bio,
+    custody,
+    verifiedAddresses,
+    activity,
+    onchain,
+    params: {
+      followers,
+      following,
+      casts: castCount,
+      ageDays,
+      txCount,
+      powerBadge: persona.powerBadge,
+      verifiedAddresses: verifiedAddresses.length,
+      engagementRate,
+      activeDays,
+      contractsDeployed,
+      weightedTxCount: onchain.txCount,
+      crossChainActiveDays: onchain.activeDays,
+      crossChainContractsDeployed: onchain.contractsDeployed,
+    },
+  }
+}
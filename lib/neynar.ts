@@ -0,0 +1,115 @@
+import type { NeynarCast, NeynarCastsResponse, NeynarResponse, NeynarUser } from "@/lib/types"
+
+const NEYNAR_API_URL = "https://api.neynar.com/v2/farcaster"
+
+export class NeynarApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message)
+    this.name = "NeynarApiError"
+  }
+}
+
+export function hasNeynarApiKey(): boolean {
+  return Boolean(process.env.NEYNAR_API_KEY)
+}
+
+async function neynarGet<T>(path: string, params: Record<string, string>): Promise<T> {
+  const url = new URL(`${NEYNAR_API_URL}/${path}`)
+  Object.entries(params).forEach(([key, value]) => {
+    url.searchParams.append(key, value)
+  })
+
+  const res = await fetch(url.toString(), {
+    headers: {
+      accept: "application/json",
+      api_key: process.env.NEYNAR_API_KEY || "",
+    },
+  })
+
+  if (!res.ok) {
+    const body = await res.text()
+    console.error("Neynar API error:", body)
+    throw new NeynarApiError(`Neynar API error: ${res.status}`, res.status)
+  }
+
+  return res.json()
+}
+
+/** Bulk lookup, Neynar accepts up to 100 FIDs per call */
+export async function fetchUsersByFid(fids: number[]): Promise<NeynarUser[]> {
+  const data = await neynarGet<NeynarResponse>("user/bulk", { fids: fids.join(",") })
+  return data.users || []
+}
+
+export async function fetchUserByUsername(username: string): Promise<NeynarUser | null> {
+  try {
+    const data = await neynarGet<{ user: NeynarUser }>("user/by_username", { username })
+    return data.user || null
+  } catch (error) {
+    if (error instanceof NeynarApiError && error.status === 404) {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * Pages through a user's casts (including replies), newest first, until
+ * `since` is reached or `maxPages` pages have been read.
+ */
+export async function fetchUserCasts(
+  fid: number,
+  { since, maxPages = 10 }: { since: Date; maxPages?: number },
+): Promise<{ casts: NeynarCast[]; truncated: boolean }> {
+  const casts: NeynarCast[] = []
+  let cursor: string | null | undefined
+
+  for (let page = 0; page < maxPages; page++) {
+    const params: Record<string, string> = {
+      fid: fid.toString(),
+      limit: "150",
+      include_replies: "true",
+    }
+    if (cursor) {
+      params.cursor = cursor
+    }
+
+    const data = await neynarGet<NeynarCastsResponse>("feed/user/casts", params)
+    const results = data.casts || []
+    const inWindow = results.filter((cast) => new Date(cast.timestamp) >= since)
+    casts.push(...inWindow)
+
+    cursor = data.next?.cursor
+    if (!cursor || inWindow.length < results.length) {
+      return { casts, truncated: false }
+    }
+  }
+
+  return { casts, truncated: true }
+}
+
+/** Users whose custody or verified addresses include `address` */
+export async function fetchUsersByAddress(address: string): Promise<NeynarUser[]> {
+  try {
+    const data = await neynarGet<Record<string, NeynarUser[]>>("user/bulk-by-address", { addresses: address })
+    const key = Object.keys(data).find((key) => key.toLowerCase() === address.toLowerCase())
+    return key ? data[key] : []
+  } catch (error) {
+    // Neynar answers 404 when no user has this address
+    if (error instanceof NeynarApiError && error.status === 404) {
+      return []
+    }
+    throw error
+  }
+}
+
+export async function searchUsers(query: string, limit: number = 5): Promise<NeynarUser[]> {
+  const data = await neynarGet<{ result: { users: NeynarUser[] } }>("user/search", {
+    q: query,
+    limit: limit.toString(),
+  })
+  return data.result?.users || []
+}
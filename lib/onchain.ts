@@ -0,0 +1,144 @@
+import { listChains, type ChainConfig, type ChainKey } from "@/lib/chains"
+import { getEtherscanService, hasEtherscanApiKey, type Transaction } from "@/lib/etherscan-service"
+import { mapWithConcurrency } from "@/lib/concurrency"
+
+// Explorer APIs allow a handful of calls per second per key
+const EXPLORER_CONCURRENCY = 3
+
+export interface ChainActivity {
+  chain: ChainKey
+  chainId: number
+  name: string
+  /** Sum of nonces across all addresses on this chain */
+  txCount: number
+  contractsDeployed: number
+  /** Distinct UTC days with an outgoing transaction on this chain */
+  activeDays: number
+}
+
+export interface OnchainActivity {
+  /** Custody plus verified addresses, lowercased and de-duplicated */
+  addresses: string[]
+  chains: ChainActivity[]
+  /** Transaction count across chains, weighted by each chain's registry weight */
+  txCount: number
+  contractsDeployed: number
+  /** Distinct UTC days with an outgoing transaction on any chain */
+  activeDays: number
+}
+
+interface RpcCall {
+  method: string
+  params: unknown[]
+}
+
+/**
+ * Sends a JSON-RPC batch request. Failed calls resolve to null so one bad
+ * address doesn't drop the whole batch.
+ */
+async function rpcBatch<T>(rpcUrl: string, calls: RpcCall[]): Promise<(T | null)[]> {
+  if (calls.length === 0) return []
+
+  const res = await fetch(rpcUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(calls.map((call, id) => ({ jsonrpc: "2.0", id, ...call }))),
+  })
+
+  const json: { id: number; result?: T; error?: unknown }[] = await res.json()
+  const results: (T | null)[] = calls.map(() => null)
+  for (const response of json) {
+    if (response.error) {
+      console.error("RPC call failed:", response.error)
+    } else if (response.result !== undefined) {
+      results[response.id] = response.result
+    }
+  }
+  return results
+}
+
+export async function getTxCounts(chain: ChainConfig, addresses: string[]): Promise<number[]> {
+  try {
+    const results = await rpcBatch<string>(
+      chain.rpcUrl,
+      addresses.map((address) => ({ method: "eth_getTransactionCount", params: [address, "latest"] })),
+    )
+    return results.map((result) => (result ? Number.parseInt(result, 16) : 0))
+  } catch (error) {
+    console.error(`Failed to get tx counts on ${chain.name}:`, error)
+    return addresses.map(() => 0)
+  }
+}
+
+/**
+ * Outgoing transaction history for every chain and address. Returns null
+ * without ETHERSCAN_API_KEY; with a key, explorer errors are thrown so the
+ * score is never computed from partial data.
+ */
+async function getTransactionHistories(chains: ChainConfig[], addresses: string[]): Promise<Transaction[][][] | null> {
+  if (!hasEtherscanApiKey()) return null
+
+  const pairs = chains.flatMap((chain) => addresses.map((address) => ({ chain, address })))
+  const histories = await mapWithConcurrency(pairs, EXPLORER_CONCURRENCY, ({ chain, address }) =>
+    getEtherscanService(chain.key).getTransactionHistory(address, 0, 99999999, 1, 1000),
+  )
+  return chains.map((_, chainIndex) => histories.slice(chainIndex * addresses.length, (chainIndex + 1) * addresses.length))
+}
+
+async function getChainActivity(
+  chain: ChainConfig,
+  addresses: string[],
+  histories: Transaction[][] | null,
+): Promise<{ activity: ChainActivity; days: Set<string> }> {
+  const txCounts = await getTxCounts(chain, addresses)
+
+  let contractsDeployed = 0
+  const days = new Set<string>()
+
+  histories?.forEach((history, index) => {
+    for (const tx of history) {
+      if (tx.from.toLowerCase() !== addresses[index]) continue
+      if (!tx.to && tx.contractAddress) contractsDeployed++
+      days.add(new Date(Number.parseInt(tx.timeStamp) * 1000).toISOString().slice(0, 10))
+    }
+  })
+
+  return {
+    activity: {
+      chain: chain.key,
+      chainId: chain.id,
+      name: chain.name,
+      txCount: txCounts.reduce((total, count) => total + count, 0),
+      contractsDeployed,
+      activeDays: days.size,
+    },
+    days,
+  }
+}
+
+export async function getOnchainActivity(
+  addresses: string[],
+  chains: ChainConfig[] = listChains(),
+): Promise<OnchainActivity> {
+  const unique = Array.from(new Set(addresses.map((address) => address.toLowerCase())))
+  const histories = await getTransactionHistories(chains, unique)
+  const results = await Promise.all(chains.map((chain, index) => getChainActivity(chain, unique, histories?.[index] ?? null)))
+
+  const allDays = new Set<string>()
+  let txCount = 0
+  let contractsDeployed = 0
+
+  results.forEach(({ activity, days }, index) => {
+    days.forEach((day) => allDays.add(day))
+    txCount += activity.txCount * chains[index].weight
+    contractsDeployed += activity.contractsDeployed
+  })
+
+  return {
+    addresses: unique,
+    chains: results.map(({ activity }) => activity),
+    txCount: Math.round(txCount),
+    contractsDeployed,
+    activeDays: allDays.size,
+  }
+}
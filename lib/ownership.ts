@@ -0,0 +1,50 @@
+import { isAddress, isAddressEqual, type Address } from "viem"
+
+export type OwnershipMethod = "custody" | "verified" | "session"
+
+export type OwnershipErrorCode = "ADDRESS_NOT_LINKED"
+
+export type OwnershipResult =
+  | { ok: true; method: OwnershipMethod }
+  | { ok: false; code: OwnershipErrorCode; error: string }
+
+/** The addresses Neynar reports for a FID */
+export interface FidAddresses {
+  fid: number
+  custody: string
+  verifiedAddresses: string[]
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return isAddress(a) && isAddress(b) && isAddressEqual(a, b)
+}
+
+/**
+ * Proves `address` may act for `owner.fid`: it must be the custody address,
+ * one of the verified addresses, or the caller must be signed in as the FID
+ * (`sessionFid`). With a session any destination wallet is allowed, since the
+ * FID owner signed a single-use nonce to start it.
+ */
+export function verifyFidOwnership(
+  owner: FidAddresses,
+  address: Address,
+  options: { sessionFid?: number } = {},
+): OwnershipResult {
+  if (sameAddress(owner.custody, address)) {
+    return { ok: true, method: "custody" }
+  }
+
+  if (owner.verifiedAddresses.some((verified) => sameAddress(verified, address))) {
+    return { ok: true, method: "verified" }
+  }
+
+  if (options.sessionFid === owner.fid) {
+    return { ok: true, method: "session" }
+  }
+
+  return {
+    ok: false,
+    code: "ADDRESS_NOT_LINKED",
+    error: `Wallet ${address} is not the custody or a verified address of FID ${owner.fid}`,
+  }
+}
@@ -0,0 +1,140 @@
+import { cache } from "react"
+import type { Metadata } from "next"
+import { getContractAddress, readPassport, readPassportByFid, type OnchainPassport } from "@/lib/contract"
+import { hasNeynarApiKey } from "@/lib/neynar"
+import { getPassport } from "@/lib/passport-service"
+import { resolveIdentifier } from "@/lib/resolver"
+import { IndexerNotConfiguredError, getPassportHistory, getPassportRank, type PassportEvent } from "@/lib/indexer"
+import type { CacheInfo } from "@/lib/cache"
+import type { PassportData } from "@/lib/types"
+
+export interface PassportProfile {
+  fid: number
+  /** Live score and profile, null if the FID no longer resolves or can't be loaded */
+  passport: (PassportData & { cache: CacheInfo }) | null
+  /** The minted passport, null when the FID hasn't minted */
+  onchain: OnchainPassport | null
+  /** Indexed mint, update and transfer events, oldest first */
+  history: PassportEvent[]
+  /** Leaderboard position, null when not indexed yet */
+  rank: number | null
+  /** False when the index couldn't be read, so `history` and `rank` are missing rather than empty */
+  indexed: boolean
+}
+
+/** History and rank only add context, a missing or failing index shouldn't take the page down */
+async function loadIndexed(tokenId: number): Promise<Pick<PassportProfile, "history" | "rank" | "indexed">> {
+  try {
+    const [history, rank] = await Promise.all([getPassportHistory(tokenId), getPassportRank(tokenId)])
+    return { history, rank, indexed: true }
+  } catch (error) {
+    // A deployment without an indexer is expected, not worth a log line per page view
+    if (!(error instanceof IndexerNotConfiguredError)) {
+      console.error(`Failed to load indexed history for passport #${tokenId}:`, error)
+    }
+    return { history: [], rank: null, indexed: false }
+  }
+}
+
+/**
+ * The live passport, or null so the page falls back to the on-chain one when
+ * Neynar fails. Without NEYNAR_API_KEY a minted token would be shown mock data,
+ * so only unminted demo profiles are scored then.
+ */
+async function loadLivePassport(fid: number, onchain: OnchainPassport | null): Promise<PassportProfile["passport"]> {
+  if (onchain && !hasNeynarApiKey()) return null
+  try {
+    const result = await getPassport(fid)
+    return result ? { ...result.passport, cache: result.cache } : null
+  } catch (error) {
+    console.error(`Failed to load live passport for FID ${fid}:`, error)
+    return null
+  }
+}
+
+async function loadProfile(fid: number, onchain: OnchainPassport | null): Promise<PassportProfile> {
+  const [passport, indexed] = await Promise.all([
+    loadLivePassport(fid, onchain),
+    onchain ? loadIndexed(onchain.tokenId) : { history: [], rank: null, indexed: true },
+  ])
+  return { fid, passport, onchain, ...indexed }
+}
+
+/**
+ * Profile for a minted token, null for tokens that were never minted. Cached
+ * per request so generateMetadata and the page share the RPC and Neynar calls.
+ */
+export const getProfileByTokenId = cache(async (tokenId: number): Promise<PassportProfile | null> => {
+  if (!getContractAddress()) return null
+  const onchain = await readPassport(tokenId)
+  return onchain ? loadProfile(onchain.fid, onchain) : null
+})
+
+/** Profile for a Farcaster username, minted or not; null when no user matches */
+export const getProfileByUsername = cache(async (username: string): Promise<PassportProfile | null> => {
+  // The @ keeps all-digit usernames from being read as FIDs
+  const identity = await resolveIdentifier(`@${username.replace(/^@/, "")}`)
+  if (!identity) return null
+
+  const onchain = getContractAddress() ? await readPassportByFid(identity.fid) : null
+  const profile = await loadProfile(identity.fid, onchain)
+  return profile.passport || profile.onchain ? profile : null
+})
+
+const DEFAULT_APP_URL = "https://farcaster-passport-builder.vercel.app"
+
+export function getAppUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || DEFAULT_APP_URL).replace(/\/$/, "")
+}
+
+/** Canonical page for a profile: the token page once minted, the username page otherwise */
+export function getProfilePath(profile: PassportProfile): string {
+  if (profile.onchain) return `/passport/${profile.onchain.tokenId}`
+  return `/u/${profile.passport?.username ?? profile.fid}`
+}
+
+/** Share image: the NFT image once minted, the frame card otherwise */
+export function getProfileImageUrl(profile: PassportProfile): string {
+  const appUrl = getAppUrl()
+  if (profile.onchain) {
+    return `${appUrl}/api/passport-nft/${profile.onchain.tokenId}?v=${profile.onchain.lastUpdated}`
+  }
+  const params = new URLSearchParams({
+    fid: String(profile.fid),
+    score: String(profile.passport?.score ?? 0),
+    badge: profile.passport?.badge ?? "Newcomer",
+    username: profile.passport?.username ?? "",
+  })
+  return `${appUrl}/api/frame/image?${params}`
+}
+
+/** Open Graph and fc:frame tags for a profile page */
+export function buildProfileMetadata(profile: PassportProfile): Metadata {
+  const name = profile.passport ? `${profile.passport.displayName} (@${profile.passport.username})` : `FID ${profile.fid}`
+  const score = profile.onchain?.score ?? profile.passport?.score
+  const badge = profile.onchain?.badge ?? profile.passport?.badge
+  const title = profile.onchain
+    ? `${name} - Reputation Passport #${profile.onchain.tokenId}`
+    : `${name} - Farcaster Reputation Passport`
+  const description = `Reputation score ${score} with the ${badge} badge on Farcaster + Base.`
+  const url = `${getAppUrl()}${getProfilePath(profile)}`
+  const image = getProfileImageUrl(profile)
+
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    openGraph: { title, description, url, images: [{ url: image, alt: title }] },
+    twitter: { card: "summary_large_image", title, description, images: [image] },
+    other: {
+      "fc:frame": "vNext",
+      "fc:frame:image": image,
+      "fc:frame:button:1": "View Passport",
+      "fc:frame:button:1:action": "link",
+      "fc:frame:button:1:target": url,
+      "fc:frame:button:2": "Get Your Passport",
+      "fc:frame:button:2:action": "link",
+      "fc:frame:button:2:target": getAppUrl(),
+    },
+  }
+}
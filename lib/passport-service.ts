@@ -0,0 +1,192 @@
+import { CURRENT_SCORING_VERSION, calculateScore, evaluateBadges, type ScoringVersion } from "@/lib/scoring"
+import { cached, getCacheStore, type CacheInfo, type CacheOptions } from "@/lib/cache"
+import { fetchUsersByFid, hasNeynarApiKey } from "@/lib/neynar"
+import { fetchUserActivity } from "@/lib/activity"
+import { getMockScoreInputs } from "@/lib/mock-data"
+import { getOnchainActivity, type OnchainActivity } from "@/lib/onchain"
+import type { NeynarUser, PassportData, ScoreCalculationParams, UserActivity } from "@/lib/types"
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000"
+
+/** Everything needed to score a FID, before any scoring model is applied */
+export interface ScoreInputs {
+  fid: number
+  username: string
+  displayName: string
+  pfpUrl: string
+  bio: string
+  custody: string
+  verifiedAddresses: string[]
+  activity?: UserActivity
+  onchain?: OnchainActivity
+  params: ScoreCalculationParams
+}
+
+/**
+ * Fetches the Farcaster profile and on-chain activity for a FID, or the
+ * deterministic mock profile when NEYNAR_API_KEY is not set.
+ * Returns null when the FID does not exist.
+ */
+export async function loadScoreInputs(fid: number): Promise<ScoreInputs | null> {
+  if (!hasNeynarApiKey()) {
+    return getMockScoreInputs(fid)
+  }
+
+  const [user] = await fetchUsersByFid([fid])
+  return user ? scoreInputsFromUser(user) : null
+}
+
+/** Fetches activity and on-chain data for an already loaded Neynar user */
+export async function scoreInputsFromUser(user: NeynarUser): Promise<ScoreInputs> {
+  const fid = user.fid
+  const followers = user.follower_count || 0
+  const following = user.following_count || 0
+  const verifiedAddresses = user.verified_addresses?.eth_addresses || []
+  const custody = user.custody_address || verifiedAddresses[0] || ZERO_ADDRESS
+
+  // Parse account creation date
+  const createdAt = user.timestamp ? new Date(user.timestamp) : new Date()
+  const ageDays = Math.floor((Date.now() - createdAt.getTime()) / (1000 * 60 * 60 * 24))
+
+  const [{ activity }, onchain] = await Promise.all([
+    fetchUserActivity(user),
+    getOnchainActivity([custody, ...verifiedAddresses].filter((address) => address !== ZERO_ADDRESS)),
+  ])
+  // v1 and v2 only scored Base, keep feeding them the same signals
+  const base = onchain.chains.find((chain) => chain.chain === "base")
+
+  return {
+    fid,
+    username: user.username,
+    displayName: user.display_name || user.username,
+    pfpUrl: user.pfp_url || `https://api.dicebear.com/7.x/avataaars/svg?seed=${fid}`,
+    bio: user.profile?.bio?.text || "",
+    custody,
+    verifiedAddresses,
+    activity,
+    onchain,
+    params: {
+      followers,
+      following,
+      casts: activity.casts + activity.replies,
+      ageDays,
+      txCount: base?.txCount ?? 0,
+      powerBadge: user.power_badge || false,
+      verifiedAddresses: verifiedAddresses.length,
+      engagementRate: activity.engagementRate,
+      activeDays: base?.activeDays ?? 0,
+      contractsDeployed: base?.contractsDeployed ?? 0,
+      weightedTxCount: onchain.txCount,
+      crossChainActiveDays: onchain.activeDays,
+      crossChainContractsDeployed: onchain.contractsDeployed,
+    },
+  }
+}
+
+export function buildPassport(inputs: ScoreInputs, version?: ScoringVersion): PassportData {
+  const { params } = inputs
+  const { score, version: scoringVersion, breakdown } = calculateScore(params, version)
+  const { primary, badges } = evaluateBadges(params)
+
+  return {
+    fid: inputs.fid,
+    username: inputs.username,
+    displayName: inputs.displayName,
+    pfpUrl: inputs.pfpUrl,
+    bio: inputs.bio,
+    score,
+    scoringVersion,
+    breakdown,
+    badge: primary,
+    badges,
+    custody: inputs.custody,
+    followers: params.followers,
+    following: params.following,
+    casts: params.casts,
+    ageDays: params.ageDays,
+    txCount: params.txCount,
+    powerBadge: params.powerBadge,
+    verifiedAddresses: inputs.verifiedAddresses,
+    engagementRate: Number.parseFloat(params.engagementRate.toFixed(1)),
+    activity: inputs.activity,
+    onchain: inputs.onchain,
+  }
+}
+
+export function getScoreCacheOptions(): CacheOptions {
+  return {
+    ttlSeconds: Number.parseInt(process.env.SCORE_CACHE_TTL_SECONDS || "") || 60 * 60,
+    staleSeconds: Number.parseInt(process.env.SCORE_CACHE_STALE_SECONDS || "") || 24 * 60 * 60,
+  }
+}
+
+/**
+ * Loads and scores a FID through the score cache, keyed by FID and scoring
+ * version. Returns null when the FID does not exist.
+ */
+export async function getPassport(
+  fid: number,
+  version: ScoringVersion = CURRENT_SCORING_VERSION,
+): Promise<{ passport: PassportData; cache: CacheInfo } | null> {
+  return cachedPassport(fid, version, () => loadScoreInputs(fid))
+}
+
+/**
+ * Score inputs for a FID through the cache, keyed by FID only since inputs
+ * don't depend on the scoring version. For callers that rescore the same FID
+ * repeatedly, such as the simulator. Returns null when the FID does not exist.
+ */
+export async function getScoreInputs(fid: number): Promise<ScoreInputs | null> {
+  const result = await cached(`inputs:${fid}`, () => loadScoreInputs(fid), getScoreCacheOptions())
+  return result?.value ?? null
+}
+
+/**
+ * The cached passport for a FID, fresh or stale, without scoring it on a
+ * miss. For renders that must stay cheap, such as NFT images.
+ */
+export async function getCachedPassport(
+  fid: number,
+  version: ScoringVersion = CURRENT_SCORING_VERSION,
+): Promise<{ passport: PassportData; storedAt: number } | null> {
+  const entry = await getCacheStore()
+    .get<PassportData>(`score:${version}:${fid}`)
+    .catch((error) => {
+      console.error("Cache read failed:", error)
+      return null
+    })
+  if (!entry) return null
+
+  const { ttlSeconds, staleSeconds } = getScoreCacheOptions()
+  if (Date.now() - entry.storedAt >= (ttlSeconds + staleSeconds) * 1000) return null
+  return { passport: entry.value, storedAt: entry.storedAt }
+}
+
+/** Same as getPassport, for a user already returned by a bulk lookup */
+export async function getPassportForUser(
+  user: NeynarUser,
+  version: ScoringVersion = CURRENT_SCORING_VERSION,
+): Promise<{ passport: PassportData; cache: CacheInfo }> {
+  const result = await cachedPassport(user.fid, version, () => scoreInputsFromUser(user))
+  if (!result) {
+    throw new Error(`Failed to score FID ${user.fid}`)
+  }
+  return result
+}
+
+async function cachedPassport(
+  fid: number,
+  version: ScoringVersion,
+  loadInputs: () => Promise<ScoreInputs | null>,
+): Promise<{ passport: PassportData; cache: CacheInfo } | null> {
+  const result = await cached(
+    `score:${version}:${fid}`,
+    async () => {
+      const inputs = await loadInputs()
+      return inputs ? buildPassport(inputs, version) : null
+    },
+    getScoreCacheOptions(),
+  )
+
+  return result && { passport: result.value, cache: result.cache }
+}
@@ -0,0 +1,107 @@
+import { getBadgeHexColor } from "@/lib/badge-colors"
+
+/**
+ * Reference renderer for fully on-chain passports.
+ *
+ * The output depends only on the arguments and uses integer arithmetic and
+ * plain string concatenation, so a Solidity renderer can reproduce it
+ * byte-for-byte. Any change here must be mirrored in the contract.
+ */
+
+export interface PassportSvgInput {
+  fid: number
+  score: number
+  badge: string
+  /** Unix seconds */
+  mintedAt: number
+}
+
+export interface PassportTokenInput extends PassportSvgInput {
+  tokenId: number
+}
+
+const BASE64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/"
+
+// Same output as OpenZeppelin's Base64.encode
+export function base64Encode(input: string): string {
+  const bytes = new TextEncoder().encode(input)
+  let output = ""
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0)
+    output += BASE64_ALPHABET[(chunk >> 18) & 63]
+    output += BASE64_ALPHABET[(chunk >> 12) & 63]
+    output += i + 1 < bytes.length ? BASE64_ALPHABET[(chunk >> 6) & 63] : "="
+    output += i + 2 < bytes.length ? BASE64_ALPHABET[chunk & 63] : "="
+  }
+
+  return output
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+function pad2(value: number): string {
+  return value < 10 ? `0${value}` : `${value}`
+}
+
+/** YYYY-MM-DD for a unix timestamp, integer-only civil-from-days conversion */
+export function formatDate(timestamp: number): string {
+  const days = Math.floor(timestamp / 86400) + 719468
+  const era = Math.floor(days / 146097)
+  const dayOfEra = days - era * 146097
+  const yearOfEra = Math.floor((dayOfEra - Math.floor(dayOfEra / 1460) + Math.floor(dayOfEra / 36524) - Math.floor(dayOfEra / 146096)) / 365)
+  const dayOfYear = dayOfEra - (365 * yearOfEra + Math.floor(yearOfEra / 4) - Math.floor(yearOfEra / 100))
+  const monthIndex = Math.floor((5 * dayOfYear + 2) / 153)
+  const day = dayOfYear - Math.floor((153 * monthIndex + 2) / 5) + 1
+  const month = monthIndex < 10 ? monthIndex + 3 : monthIndex - 9
+  const year = yearOfEra + era * 400 + (month <= 2 ? 1 : 0)
+  return `${year}-${pad2(month)}-${pad2(day)}`
+}
+
+export function renderPassportSvg({ fid, score, badge, mintedAt }: PassportSvgInput): string {
+  const color = getBadgeHexColor(badge)
+  const gaugeWidth = Math.floor((Math.min(score, 1000) * 400) / 1000)
+
+  return (
+    '<svg xmlns="http://www.w3.org/2000/svg" width="500" height="500" viewBox="0 0 500 500">' +
+    '<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">' +
+    '<stop offset="0" stop-color="#667eea"/><stop offset="1" stop-color="#764ba2"/>' +
+    "</linearGradient></defs>" +
+    '<rect width="500" height="500" rx="24" fill="url(#bg)"/>' +
+    '<g font-family="sans-serif" fill="#ffffff">' +
+    '<text x="40" y="70" font-size="24" font-weight="bold">Farcaster Reputation Passport</text>' +
+    `<text x="40" y="105" font-size="18" fill-opacity="0.8">FID ${fid}</text>` +
+    `<rect x="40" y="130" width="140" height="36" rx="18" fill="${color}"/>` +
+    `<text x="110" y="154" font-size="18" font-weight="bold" text-anchor="middle">${escapeXml(badge)}</text>` +
+    `<text x="250" y="300" font-size="120" font-weight="bold" text-anchor="middle">${score}</text>` +
+    '<text x="250" y="340" font-size="20" fill-opacity="0.8" text-anchor="middle">Reputation Score</text>' +
+    '<rect x="50" y="380" width="400" height="16" rx="8" fill-opacity="0.2"/>' +
+    `<rect x="50" y="380" width="${gaugeWidth}" height="16" rx="8" fill="${color}"/>` +
+    `<text x="40" y="460" font-size="16" fill-opacity="0.7">Minted ${formatDate(mintedAt)}</text>` +
+    "</g></svg>"
+  )
+}
+
+/** Metadata JSON that `buildTokenUri` encodes, served as-is by the metadata route */
+export function buildTokenMetadata(input: PassportTokenInput): string {
+  const image = `data:image/svg+xml;base64,${base64Encode(renderPassportSvg(input))}`
+
+  return (
+    `{"name":"Farcaster Reputation Passport #${input.tokenId}",` +
+    '"description":"On-chain reputation identity for Farcaster users, powered by social and on-chain activity.",' +
+    `"image":"${image}",` +
+    '"attributes":[' +
+    `{"trait_type":"FID","value":${input.fid}},` +
+    `{"trait_type":"Score","value":${input.score},"display_type":"number","max_value":1000},` +
+    `{"trait_type":"Badge","value":${JSON.stringify(input.badge)}},` +
+    `{"trait_type":"Minted","value":${input.mintedAt},"display_type":"date"}` +
+    "]}"
+  )
+}
+
+/** `tokenURI` value for a fully on-chain passport */
+export function buildTokenUri(input: PassportTokenInput): string {
+  return `data:application/json;base64,${base64Encode(buildTokenMetadata(input))}`
+}
@@ -0,0 +1,18 @@
+import { KvHistoryStore } from "./kv-history-store"
+import { MemoryHistoryStore } from "./memory-history-store"
+import type { RefreshHistoryStore } from "./types"
+
+let historyStore: RefreshHistoryStore | null = null
+
+export function getHistoryStore(): RefreshHistoryStore {
+  if (!historyStore) {
+    const url = process.env.KV_REST_API_URL
+    const token = process.env.KV_REST_API_TOKEN
+    historyStore = url && token ? new KvHistoryStore(url, token) : new MemoryHistoryStore()
+  }
+  return historyStore
+}
+
+export function setHistoryStore(store: RefreshHistoryStore) {
+  historyStore = store
+}
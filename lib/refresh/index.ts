@@ -0,0 +1,16 @@
+export { KvHistoryStore } from "./kv-history-store"
+export { KvRequestStore } from "./kv-request-store"
+export { MemoryHistoryStore } from "./memory-history-store"
+export { MemoryRequestStore } from "./memory-request-store"
+export { getHistoryStore, setHistoryStore } from "./history"
+export { getRefreshThreshold, refreshNextBatch, refreshPassport, refreshPassports } from "./pipeline"
+export {
+  RefreshRateLimitError,
+  getRefreshCooldownSeconds,
+  getRefreshRequest,
+  getRequestStore,
+  requestPassportRefresh,
+  setRequestStore,
+} from "./requests"
+export { OwnerKeySubmitter, SafeQueueSubmitter, encodeUpdateScore, getUpdateSubmitter, toSafeBatch } from "./submitters"
+export type * from "./types"
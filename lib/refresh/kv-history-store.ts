@@ -0,0 +1,54 @@
+import type { HistoryQuery, RefreshHistoryStore, ScoreChange } from "./types"
+
+const HISTORY_KEY = "refresh:history"
+const CURSOR_KEY = "refresh:cursor"
+const MAX_ENTRIES = 5000
+
+/** History kept in an Upstash-compatible Redis list, newest first */
+export class KvHistoryStore implements RefreshHistoryStore {
+  constructor(
+    private url: string,
+    private token: string,
+  ) {}
+
+  private async command<T>(args: (string | number)[]): Promise<T | null> {
+    const res = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(args),
+    })
+
+    if (!res.ok) {
+      throw new Error(`KV error: ${res.status} ${await res.text()}`)
+    }
+
+    const data: { result: T | null } = await res.json()
+    return data.result
+  }
+
+  async append(change: ScoreChange): Promise<void> {
+    await this.command(["LPUSH", HISTORY_KEY, JSON.stringify(change)])
+    await this.command(["LTRIM", HISTORY_KEY, 0, MAX_ENTRIES - 1])
+  }
+
+  async list(query: HistoryQuery = {}): Promise<ScoreChange[]> {
+    const raw = (await this.command<string[]>(["LRANGE", HISTORY_KEY, 0, MAX_ENTRIES - 1])) || []
+    return raw
+      .map((item) => JSON.parse(item) as ScoreChange)
+      .filter((change) => query.tokenId === undefined || change.tokenId === query.tokenId)
+      .filter((change) => query.status === undefined || change.status === query.status)
+      .slice(0, query.limit ?? 100)
+  }
+
+  async getCursor(): Promise<number | null> {
+    const raw = await this.command<string>(["GET", CURSOR_KEY])
+    return raw ? Number(raw) : null
+  }
+
+  async setCursor(tokenId: number): Promise<void> {
+    await this.command(["SET", CURSOR_KEY, tokenId])
+  }
+}
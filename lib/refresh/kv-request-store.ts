@@ -0,0 +1,59 @@
+import type { RefreshRequest, RefreshRequestStore } from "./types"
+
+function requestKey(fid: number): string {
+  return `passport-refresh:${fid}`
+}
+
+function cooldownKey(fid: number): string {
+  return `passport-refresh:cooldown:${fid}`
+}
+
+/** Refresh requests in an Upstash-compatible Redis, cooldowns claimed with SET NX EX */
+export class KvRequestStore implements RefreshRequestStore {
+  constructor(
+    private url: string,
+    private token: string,
+  ) {}
+
+  private async command<T>(args: (string | number)[]): Promise<T | null> {
+    const res = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(args),
+    })
+
+    if (!res.ok) {
+      throw new Error(`KV error: ${res.status} ${await res.text()}`)
+    }
+
+    const data: { result: T | null } = await res.json()
+    return data.result
+  }
+
+  async claim(fid: number, ttlSeconds: number): Promise<boolean> {
+    const result = await this.command<string>(["SET", cooldownKey(fid), Date.now(), "NX", "EX", Math.ceil(ttlSeconds)])
+    return result === "OK"
+  }
+
+  async release(fid: number): Promise<void> {
+    await this.command(["DEL", cooldownKey(fid)])
+  }
+
+  async cooldown(fid: number): Promise<number> {
+    // TTL is -2 for a missing key
+    const ttl = await this.command<number>(["TTL", cooldownKey(fid)])
+    return Math.max(ttl ?? 0, 0)
+  }
+
+  async get(fid: number): Promise<RefreshRequest | null> {
+    const raw = await this.command<string>(["GET", requestKey(fid)])
+    return raw ? (JSON.parse(raw) as RefreshRequest) : null
+  }
+
+  async set(fid: number, request: RefreshRequest, ttlSeconds: number): Promise<void> {
+    await this.command(["SET", requestKey(fid), JSON.stringify(request), "EX", Math.ceil(ttlSeconds)])
+  }
+}
@@ -0,0 +1,29 @@
+import type { HistoryQuery, RefreshHistoryStore, ScoreChange } from "./types"
+
+/** In-process history, the default when no KV backend is configured */
+export class MemoryHistoryStore implements RefreshHistoryStore {
+  private changes: ScoreChange[] = []
+  private cursor: number | null = null
+
+  constructor(private maxEntries: number = 5000) {}
+
+  async append(change: ScoreChange): Promise<void> {
+    this.changes.unshift(change)
+    this.changes.length = Math.min(this.changes.length, this.maxEntries)
+  }
+
+  async list(query: HistoryQuery = {}): Promise<ScoreChange[]> {
+    return this.changes
+      .filter((change) => query.tokenId === undefined || change.tokenId === query.tokenId)
+      .filter((change) => query.status === undefined || change.status === query.status)
+      .slice(0, query.limit ?? 100)
+  }
+
+  async getCursor(): Promise<number | null> {
+    return this.cursor
+  }
+
+  async setCursor(tokenId: number): Promise<void> {
+    this.cursor = tokenId
+  }
+}
@@ -0,0 +1,46 @@
+import type { RefreshRequest, RefreshRequestStore } from "./types"
+
+/** In-process requests and cooldowns, the default when no KV backend is configured */
+export class MemoryRequestStore implements RefreshRequestStore {
+  private cooldowns = new Map<number, number>()
+  private requests = new Map<number, { request: RefreshRequest; expiresAt: number }>()
+
+  // Synchronous so the check and the claim can't interleave with another request
+  private remaining(fid: number): number {
+    const expiresAt = this.cooldowns.get(fid)
+    if (expiresAt === undefined) return 0
+    if (expiresAt <= Date.now()) {
+      this.cooldowns.delete(fid)
+      return 0
+    }
+    return Math.ceil((expiresAt - Date.now()) / 1000)
+  }
+
+  async claim(fid: number, ttlSeconds: number): Promise<boolean> {
+    if (this.remaining(fid) > 0) return false
+    this.cooldowns.set(fid, Date.now() + ttlSeconds * 1000)
+    return true
+  }
+
+  async release(fid: number): Promise<void> {
+    this.cooldowns.delete(fid)
+  }
+
+  async cooldown(fid: number): Promise<number> {
+    return this.remaining(fid)
+  }
+
+  async get(fid: number): Promise<RefreshRequest | null> {
+    const entry = this.requests.get(fid)
+    if (!entry) return null
+    if (entry.expiresAt <= Date.now()) {
+      this.requests.delete(fid)
+      return null
+    }
+    return entry.request
+  }
+
+  async set(fid: number, request: RefreshRequest, ttlSeconds: number): Promise<void> {
+    this.requests.set(fid, { request, expiresAt: Date.now() + ttlSeconds * 1000 })
+  }
+}
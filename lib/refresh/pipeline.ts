@@ -0,0 +1,232 @@
+import { mapWithConcurrency } from "@/lib/concurrency"
+import { readNextTokenId, readPassport, requireContractAddress, type OnchainPassport } from "@/lib/contract"
+import { hasNeynarApiKey } from "@/lib/neynar"
+import { buildPassport, loadScoreInputs } from "@/lib/passport-service"
+import { getHistoryStore } from "./history"
+import { MemoryHistoryStore } from "./memory-history-store"
+import { getUpdateSubmitter } from "./submitters"
+import type { RefreshOptions, RefreshResult, ScoreChange, UpdateSubmitter } from "./types"
+
+const DEFAULT_THRESHOLD = 10
+// Each passport loads uncached Neynar and explorer data, keep a batch well inside one function run
+const DEFAULT_BATCH_LIMIT = 25
+const READ_CONCURRENCY = 5
+const HISTORY_SCAN_LIMIT = 5000
+
+export function getRefreshThreshold(): number {
+  const threshold = Number(process.env.SCORE_REFRESH_THRESHOLD)
+  return Number.isFinite(threshold) && threshold >= 0 ? threshold : DEFAULT_THRESHOLD
+}
+
+type Recomputed = { current: OnchainPassport; score: number; badge: string; scoringVersion: string }
+type RecomputeFailure = { tokenId: number; current?: OnchainPassport; error: string }
+
+// Scores are recomputed from fresh inputs, bypassing the score cache
+async function recompute(tokenId: number): Promise<Recomputed | RecomputeFailure | null> {
+  let current: OnchainPassport | null = null
+  try {
+    current = await readPassport(tokenId)
+    if (!current) return null
+
+    const inputs = await loadScoreInputs(current.fid)
+    if (!inputs) return { tokenId, current, error: `FID ${current.fid} not found` }
+
+    const passport = buildPassport(inputs)
+    return { current, score: passport.score, badge: passport.badge, scoringVersion: passport.scoringVersion }
+  } catch (error) {
+    return { tokenId, current: current ?? undefined, error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+function requireSubmitter(dryRun?: boolean): UpdateSubmitter | null {
+  // Without a key loadScoreInputs falls back to mock data, which must never be pushed on-chain
+  if (!hasNeynarApiKey()) {
+    throw new Error("Score refresh requires NEYNAR_API_KEY. Please set it in your environment variables.")
+  }
+
+  const contractAddress = requireContractAddress()
+
+  const submitter = getUpdateSubmitter(contractAddress)
+  if (!submitter && !dryRun) {
+    throw new Error("No score updater configured. Please set UPDATER_PRIVATE_KEY or REFRESH_SAFE_ADDRESS in your environment variables.")
+  }
+  // Queued calldata only lives in the history, an in-memory history loses it on the next cold start
+  if (submitter?.mode === "safe" && !dryRun && getHistoryStore() instanceof MemoryHistoryStore) {
+    throw new Error("Queued Safe updates need a persistent refresh history. Please set KV_REST_API_URL and KV_REST_API_TOKEN in your environment variables.")
+  }
+  return submitter
+}
+
+/** Newest queued change per token, from the history */
+async function loadQueuedChanges(tokenId?: number): Promise<Map<number, ScoreChange>> {
+  const queued = new Map<number, ScoreChange>()
+  for (const change of await getHistoryStore().list({ tokenId, status: "queued", limit: HISTORY_SCAN_LIMIT })) {
+    if (!queued.has(change.tokenId)) queued.set(change.tokenId, change)
+  }
+  return queued
+}
+
+// The Safe hasn't executed a queued change while the passport still holds the values it replaces
+function isAwaitingSafe(queued: ScoreChange | undefined, current: OnchainPassport): boolean {
+  return queued !== undefined && queued.oldScore === current.score && queued.oldBadge === current.badge
+}
+
+/**
+ * Turns a recomputed passport into a recorded change. Returns null when the
+ * badge is unchanged and the score moved by less than `threshold`, or when a
+ * change queued for the Safe is still waiting to be executed.
+ */
+async function applyRefresh(
+  result: Recomputed | RecomputeFailure,
+  threshold: number,
+  submitter: UpdateSubmitter | null,
+  queued: Map<number, ScoreChange>,
+  dryRun?: boolean,
+): Promise<ScoreChange | null> {
+  if ("error" in result) {
+    const change: ScoreChange = {
+      tokenId: result.tokenId,
+      fid: result.current?.fid ?? 0,
+      oldScore: result.current?.score ?? 0,
+      newScore: result.current?.score ?? 0,
+      oldBadge: result.current?.badge ?? "",
+      newBadge: result.current?.badge ?? "",
+      scoringVersion: "",
+      status: "failed",
+      error: result.error,
+      createdAt: new Date().toISOString(),
+    }
+    if (!dryRun) await getHistoryStore().append(change)
+    return change
+  }
+
+  const { current, score, badge, scoringVersion } = result
+  if (badge === current.badge && Math.abs(score - current.score) < threshold) {
+    return null
+  }
+  if (submitter?.mode === "safe" && isAwaitingSafe(queued.get(current.tokenId), current)) {
+    return null
+  }
+
+  const change: ScoreChange = {
+    tokenId: current.tokenId,
+    fid: current.fid,
+    oldScore: current.score,
+    newScore: score,
+    oldBadge: current.badge,
+    newBadge: badge,
+    scoringVersion,
+    status: submitter?.mode === "safe" ? "queued" : "submitted",
+    createdAt: new Date().toISOString(),
+  }
+
+  if (dryRun || !submitter) {
+    return change
+  }
+
+  try {
+    const submitted = await submitter.submit({ tokenId: current.tokenId, score, badge })
+    if (submitted.status === "submitted") {
+      change.txHash = submitted.txHash
+    } else {
+      change.calldata = submitted.calldata
+    }
+  } catch (error) {
+    change.status = "failed"
+    change.error = error instanceof Error ? error.message : String(error)
+  }
+
+  await getHistoryStore().append(change)
+  return change
+}
+
+/**
+ * Recomputes scores for minted passports `fromTokenId..fromTokenId+limit-1`,
+ * and for every one whose badge changed or whose score moved by at least
+ * `threshold`, submits or queues updateScore and records the change.
+ */
+export async function refreshPassports(options: RefreshOptions = {}): Promise<RefreshResult> {
+  const submitter = requireSubmitter(options.dryRun)
+  const threshold = options.threshold ?? getRefreshThreshold()
+  const fromTokenId = Math.max(options.fromTokenId ?? 1, 1)
+  const limit = options.limit ?? DEFAULT_BATCH_LIMIT
+  const mintedCount = await readNextTokenId()
+  const lastTokenId = Math.min(mintedCount, fromTokenId + limit - 1)
+
+  const tokenIds = Array.from({ length: Math.max(lastTokenId - fromTokenId + 1, 0) }, (_, i) => fromTokenId + i)
+  const queued = submitter?.mode === "safe" ? await loadQueuedChanges() : new Map<number, ScoreChange>()
+
+  const changes: ScoreChange[] = []
+  let checked = 0
+  let skipped = 0
+  let nextTokenId = fromTokenId
+
+  // Passports are read a group at a time so a deadline can stop between groups
+  for (let index = 0; index < tokenIds.length; index += READ_CONCURRENCY) {
+    if (options.deadline !== undefined && Date.now() >= options.deadline) break
+
+    const group = tokenIds.slice(index, index + READ_CONCURRENCY)
+    const results = await mapWithConcurrency(group, READ_CONCURRENCY, recompute)
+
+    // Submissions run one at a time so the updater's nonces stay in order
+    for (const result of results) {
+      if (!result) continue
+      checked++
+
+      const change = await applyRefresh(result, threshold, submitter, queued, options.dryRun)
+      if (change) {
+        changes.push(change)
+      } else {
+        skipped++
+      }
+    }
+
+    nextTokenId = group[group.length - 1] + 1
+    await options.onProgress?.(nextTokenId)
+  }
+
+  return {
+    checked,
+    skipped,
+    changes,
+    nextFromTokenId: nextTokenId <= mintedCount ? nextTokenId : null,
+  }
+}
+
+/**
+ * Refreshes the batch starting at the cursor the previous call stored, then
+ * moves the cursor on, back to token 1 once every passport was checked. Lets
+ * a scheduled job page through all minted passports one batch per run. The
+ * cursor is saved after every group, so a run cut short still makes progress.
+ */
+export async function refreshNextBatch(
+  options: Pick<RefreshOptions, "limit" | "threshold" | "deadline"> = {},
+): Promise<RefreshResult> {
+  const store = getHistoryStore()
+  const fromTokenId = (await store.getCursor()) ?? 1
+  const result = await refreshPassports({ ...options, fromTokenId, onProgress: (next) => store.setCursor(next) })
+  await store.setCursor(result.nextFromTokenId ?? 1)
+  return result
+}
+
+/**
+ * Refreshes a single passport. Returns null when the token was never minted,
+ * otherwise the on-chain and recomputed values and the recorded change, or a
+ * null `change` when it was below `threshold`.
+ */
+export async function refreshPassport(
+  tokenId: number,
+  options: Pick<RefreshOptions, "threshold" | "dryRun"> = {},
+): Promise<{ current: OnchainPassport; score: number; badge: string; change: ScoreChange | null } | null> {
+  const submitter = requireSubmitter(options.dryRun)
+  const result = await recompute(tokenId)
+  if (!result) return null
+  if ("error" in result && !result.current) throw new Error(result.error)
+
+  const queued = submitter?.mode === "safe" ? await loadQueuedChanges(tokenId) : new Map<number, ScoreChange>()
+  const change = await applyRefresh(result, options.threshold ?? getRefreshThreshold(), submitter, queued, options.dryRun)
+  const current = result.current!
+  return "error" in result
+    ? { current, score: current.score, badge: current.badge, change }
+    : { current, score: result.score, badge: result.badge, change }
+}
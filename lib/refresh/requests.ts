@@ -0,0 +1,109 @@
+import { readPassportByFid, type OnchainPassport } from "@/lib/contract"
+import { KvRequestStore } from "./kv-request-store"
+import { MemoryRequestStore } from "./memory-request-store"
+import { refreshPassport } from "./pipeline"
+import type { RefreshRequest, RefreshRequestStore } from "./types"
+
+const DEFAULT_COOLDOWN_SECONDS = 24 * 60 * 60
+// Nothing reached the updater, but recomputing still reads Neynar and every explorer
+const UNCHANGED_COOLDOWN_SECONDS = 5 * 60
+
+let requestStore: RefreshRequestStore | null = null
+
+export class RefreshRateLimitError extends Error {
+  constructor(public retryAfterSeconds: number) {
+    super(`Refresh already requested, try again in ${retryAfterSeconds}s`)
+    this.name = "RefreshRateLimitError"
+  }
+}
+
+export function getRequestStore(): RefreshRequestStore {
+  if (!requestStore) {
+    const url = process.env.KV_REST_API_URL
+    const token = process.env.KV_REST_API_TOKEN
+    requestStore = url && token ? new KvRequestStore(url, token) : new MemoryRequestStore()
+  }
+  return requestStore
+}
+
+export function setRequestStore(store: RefreshRequestStore) {
+  requestStore = store
+}
+
+export function getRefreshCooldownSeconds(): number {
+  const cooldown = Number(process.env.PASSPORT_REFRESH_COOLDOWN_SECONDS)
+  return Number.isFinite(cooldown) && cooldown >= 0 ? cooldown : DEFAULT_COOLDOWN_SECONDS
+}
+
+/**
+ * The latest refresh request for a FID with its status brought up to date:
+ * a submitted or queued request becomes `confirmed` once the on-chain
+ * `lastUpdated` is later than the request.
+ */
+export async function getRefreshRequest(
+  fid: number,
+  onchain: OnchainPassport | null,
+): Promise<{ request: RefreshRequest; retryAfterSeconds: number } | null> {
+  const store = getRequestStore()
+  const request = await store.get(fid)
+  if (!request) return null
+
+  const retryAfterSeconds = await store.cooldown(fid)
+  const awaitingChain = request.status === "submitted" || request.status === "queued"
+  if (awaitingChain && onchain && onchain.lastUpdated * 1000 >= Date.parse(request.requestedAt)) {
+    request.status = "confirmed"
+    await store.set(fid, request, retryAfterSeconds || 1)
+  }
+
+  return { request, retryAfterSeconds }
+}
+
+/**
+ * Recomputes a holder's passport and submits updateScore through the admin
+ * updater. One request per FID per cooldown, claimed atomically; throws
+ * RefreshRateLimitError otherwise. A score that didn't move only holds a
+ * short cooldown. Returns null when the FID has no passport.
+ */
+export async function requestPassportRefresh(fid: number): Promise<RefreshRequest | null> {
+  const store = getRequestStore()
+  const cooldownSeconds = getRefreshCooldownSeconds() || 1
+  if (!(await store.claim(fid, cooldownSeconds))) {
+    throw new RefreshRateLimitError(Math.max(await store.cooldown(fid), 1))
+  }
+
+  // Only requests that reached the updater keep the full cooldown, so the holder can retry the rest
+  try {
+    const onchain = await readPassportByFid(fid)
+    const result = onchain ? await refreshPassport(onchain.tokenId) : null
+    if (!result) {
+      await store.release(fid)
+      return null
+    }
+
+    const { current, score, badge, change } = result
+    const request: RefreshRequest = {
+      fid,
+      tokenId: current.tokenId,
+      oldScore: current.score,
+      oldBadge: current.badge,
+      newScore: score,
+      newBadge: badge,
+      status: change ? change.status : "unchanged",
+      txHash: change?.txHash,
+      error: change?.error,
+      requestedAt: new Date().toISOString(),
+    }
+
+    await store.set(fid, request, cooldownSeconds)
+    if (request.status === "failed") {
+      await store.release(fid)
+    } else if (request.status === "unchanged") {
+      await store.release(fid)
+      await store.claim(fid, Math.min(UNCHANGED_COOLDOWN_SECONDS, cooldownSeconds))
+    }
+    return request
+  } catch (error) {
+    await store.release(fid)
+    throw error
+  }
+}
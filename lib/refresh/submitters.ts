@@ -0,0 +1,128 @@
+import { createWalletClient, encodeFunctionData, http, isAddress, type Address, type Hex } from "viem"
+import { privateKeyToAccount, type PrivateKeyAccount } from "viem/accounts"
+import { base } from "viem/chains"
+import { CHAINS } from "@/lib/chains"
+import { REPUTATION_PASSPORT_ABI } from "@/lib/contract-abi"
+import { publicClient } from "@/lib/contract"
+import type { ScoreChange, ScoreUpdate, SubmitResult, UpdateSubmitter } from "./types"
+
+export function encodeUpdateScore(update: ScoreUpdate): Hex {
+  return encodeFunctionData({
+    abi: REPUTATION_PASSPORT_ABI,
+    functionName: "updateScore",
+    args: [BigInt(update.tokenId), BigInt(update.score), update.badge],
+  })
+}
+
+/**
+ * Sends updateScore directly from UPDATER_PRIVATE_KEY, which must own the
+ * contract. Submissions run one at a time through a locally tracked nonce.
+ */
+export class OwnerKeySubmitter implements UpdateSubmitter {
+  readonly mode = "owner"
+  private account: PrivateKeyAccount
+  private nonce: number | null = null
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(
+    privateKey: Hex,
+    private contractAddress: Address,
+  ) {
+    this.account = privateKeyToAccount(privateKey)
+  }
+
+  get sender(): Address {
+    return this.account.address
+  }
+
+  submit(update: ScoreUpdate): Promise<SubmitResult> {
+    // Concurrent callers wait their turn so no two transactions get the same nonce
+    const result = this.queue.then(() => this.send(update))
+    this.queue = result.catch(() => undefined)
+    return result
+  }
+
+  private async send(update: ScoreUpdate): Promise<SubmitResult> {
+    const walletClient = createWalletClient({
+      account: this.account,
+      chain: base,
+      transport: http(CHAINS.base.rpcUrl),
+    })
+
+    // Track the nonce locally so back-to-back updates don't wait on the RPC's pending count
+    if (this.nonce === null) {
+      this.nonce = await publicClient.getTransactionCount({ address: this.account.address, blockTag: "pending" })
+    }
+
+    try {
+      const txHash = await walletClient.writeContract({
+        address: this.contractAddress,
+        abi: REPUTATION_PASSPORT_ABI,
+        functionName: "updateScore",
+        args: [BigInt(update.tokenId), BigInt(update.score), update.badge],
+        nonce: this.nonce,
+      })
+      this.nonce++
+      return { status: "submitted", txHash }
+    } catch (error) {
+      // Re-read the pending count next time, another instance may have used the nonce
+      this.nonce = null
+      throw error
+    }
+  }
+}
+
+/** Queues updateScore calldata for a Safe that owns the contract to execute later */
+export class SafeQueueSubmitter implements UpdateSubmitter {
+  readonly mode = "safe"
+
+  constructor(readonly sender: Address) {}
+
+  async submit(update: ScoreUpdate): Promise<SubmitResult> {
+    return { status: "queued", calldata: encodeUpdateScore(update) }
+  }
+}
+
+const ownerSubmitters = new Map<string, OwnerKeySubmitter>()
+
+/**
+ * UPDATER_PRIVATE_KEY takes precedence over REFRESH_SAFE_ADDRESS.
+ * Returns null when neither is configured.
+ */
+export function getUpdateSubmitter(contractAddress: Address): UpdateSubmitter | null {
+  const privateKey = process.env.UPDATER_PRIVATE_KEY
+  if (privateKey) {
+    // One shared submitter per key and contract, so every caller goes through the same nonce
+    const key = `${privateKey}:${contractAddress}`
+    let submitter = ownerSubmitters.get(key)
+    if (!submitter) {
+      submitter = new OwnerKeySubmitter(privateKey as Hex, contractAddress)
+      ownerSubmitters.set(key, submitter)
+    }
+    return submitter
+  }
+
+  const safeAddress = process.env.REFRESH_SAFE_ADDRESS
+  if (safeAddress && isAddress(safeAddress)) {
+    return new SafeQueueSubmitter(safeAddress)
+  }
+
+  return null
+}
+
+/** Queued changes as a Safe Transaction Builder batch file */
+export function toSafeBatch(changes: ScoreChange[], contractAddress: Address, safeAddress?: string) {
+  return {
+    version: "1.0",
+    chainId: String(base.id),
+    createdAt: Date.now(),
+    meta: {
+      name: "Passport score refresh",
+      description: `updateScore for ${changes.length} passport(s)`,
+      createdFromSafeAddress: safeAddress,
+    },
+    transactions: changes
+      .filter((change) => change.calldata)
+      .map((change) => ({ to: contractAddress, value: "0", data: change.calldata })),
+  }
+}
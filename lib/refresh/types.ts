@@ -0,0 +1,115 @@
+import type { Address, Hex } from "viem"
+
+/**
+ * - `submitted`: updateScore sent from the updater key
+ * - `queued`: calldata stored for the multisig to execute
+ * - `failed`: recomputing or submitting threw
+ */
+export type ScoreChangeStatus = "submitted" | "queued" | "failed"
+
+/** One recorded score/badge change for a minted passport */
+export interface ScoreChange {
+  tokenId: number
+  fid: number
+  oldScore: number
+  newScore: number
+  oldBadge: string
+  newBadge: string
+  scoringVersion: string
+  status: ScoreChangeStatus
+  txHash?: Hex
+  /** updateScore calldata, set for queued changes */
+  calldata?: Hex
+  error?: string
+  /** ISO timestamp */
+  createdAt: string
+}
+
+export interface HistoryQuery {
+  tokenId?: number
+  status?: ScoreChangeStatus
+  limit?: number
+}
+
+/** Append-only log of score changes, newest first when listed */
+export interface RefreshHistoryStore {
+  append(change: ScoreChange): Promise<void>
+  list(query?: HistoryQuery): Promise<ScoreChange[]>
+  /** Token ID the scheduled refresh resumes from, null before the first run */
+  getCursor(): Promise<number | null>
+  setCursor(tokenId: number): Promise<void>
+}
+
+export interface ScoreUpdate {
+  tokenId: number
+  score: number
+  badge: string
+}
+
+export type SubmitResult = { status: "submitted"; txHash: Hex } | { status: "queued"; calldata: Hex }
+
+/** Sends or queues updateScore calls */
+export interface UpdateSubmitter {
+  mode: "owner" | "safe"
+  /** Address that will execute updateScore, the contract owner */
+  sender: Address
+  submit(update: ScoreUpdate): Promise<SubmitResult>
+}
+
+export interface RefreshOptions {
+  /** First token ID to check, defaults to 1 */
+  fromTokenId?: number
+  /** Max passports to check in this run */
+  limit?: number
+  /** Minimum absolute score change worth an update; badge changes always count */
+  threshold?: number
+  /** Compute the diff without submitting or recording anything */
+  dryRun?: boolean
+  /** Unix ms after which no more passports are started; `nextFromTokenId` resumes from there */
+  deadline?: number
+  /** Called with the next unchecked token ID after each group of passports */
+  onProgress?: (nextFromTokenId: number) => Promise<void>
+}
+
+export interface RefreshResult {
+  checked: number
+  skipped: number
+  changes: ScoreChange[]
+  /** Token ID to pass as `fromTokenId` next, null once every passport was checked */
+  nextFromTokenId: number | null
+}
+
+/**
+ * Status of a holder-initiated refresh. `unchanged` means the new score was
+ * below the refresh threshold, `confirmed` that PassportUpdated has landed.
+ */
+export type RefreshRequestStatus = ScoreChangeStatus | "unchanged" | "confirmed"
+
+export interface RefreshRequest {
+  fid: number
+  tokenId: number
+  oldScore: number
+  oldBadge: string
+  newScore: number
+  newBadge: string
+  status: RefreshRequestStatus
+  txHash?: Hex
+  error?: string
+  /** ISO timestamp */
+  requestedAt: string
+}
+
+/**
+ * Holder refresh requests and their per-FID cooldowns, kept apart from the
+ * score cache so a cooldown can't be evicted early
+ */
+export interface RefreshRequestStore {
+  /** Starts the FID's cooldown unless one is running, atomically. False when one is */
+  claim(fid: number, ttlSeconds: number): Promise<boolean>
+  /** Ends the FID's cooldown early */
+  release(fid: number): Promise<void>
+  /** Seconds left on the FID's cooldown, 0 when none */
+  cooldown(fid: number): Promise<number>
+  get(fid: number): Promise<RefreshRequest | null>
+  set(fid: number, request: RefreshRequest, ttlSeconds: number): Promise<void>
+}
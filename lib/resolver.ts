@@ -0,0 +1,88 @@
+import { createPublicClient, http } from "viem"
+import { mainnet } from "viem/chains"
+import { normalize } from "viem/ens"
+import { CHAINS } from "@/lib/chains"
+import { isMockPersonaId } from "@/lib/mock-data"
+import { fetchUserByUsername, fetchUsersByAddress, hasNeynarApiKey } from "@/lib/neynar"
+
+export type IdentifierKind = "fid" | "username" | "address" | "ens"
+
+export interface ResolvedIdentity {
+  fid: number
+  kind: IdentifierKind
+  input: string
+  /** Address the FID was found by, for address and ENS lookups */
+  address?: string
+}
+
+export function getIdentifierKind(input: string): IdentifierKind {
+  const value = input.trim()
+  if (/^\d+$/.test(value)) return "fid"
+  if (/^0x[a-fA-F0-9]{40}$/.test(value)) return "address"
+  // Covers ENS names and Basenames (*.base.eth)
+  if (!value.startsWith("@") && value.endsWith(".eth")) return "ens"
+  return "username"
+}
+
+const ensClient = createPublicClient({
+  chain: mainnet,
+  transport: http(CHAINS.ethereum.rpcUrl),
+})
+
+async function resolveEnsAddress(name: string): Promise<string | null> {
+  try {
+    return await ensClient.getEnsAddress({ name: normalize(name) })
+  } catch (error) {
+    console.error(`Failed to resolve ${name}:`, error)
+    return null
+  }
+}
+
+async function fidForAddress(address: string): Promise<number | null> {
+  const [user] = await fetchUsersByAddress(address)
+  return user ? user.fid : null
+}
+
+// Mock profiles are named `${persona}${fid}`, see lib/mock-data.ts
+function resolveMockUsername(username: string): number | null {
+  const match = /^([a-z]+)(\d+)$/.exec(username)
+  return match && isMockPersonaId(match[1]) ? Number.parseInt(match[2]) : null
+}
+
+/**
+ * Resolves a FID, `@username`, ETH address, ENS name or Basename to a FID.
+ * Returns null when nothing matches.
+ */
+export async function resolveIdentifier(input: string): Promise<ResolvedIdentity | null> {
+  const value = input.trim()
+  const kind = getIdentifierKind(value)
+
+  if (kind === "fid") {
+    const fid = Number.parseInt(value)
+    return fid > 0 ? { fid, kind, input } : null
+  }
+
+  if (!hasNeynarApiKey()) {
+    const fid = kind === "username" ? resolveMockUsername(value.replace(/^@/, "").toLowerCase()) : null
+    return fid ? { fid, kind, input } : null
+  }
+
+  if (kind === "address") {
+    const fid = await fidForAddress(value)
+    return fid ? { fid, kind, input, address: value } : null
+  }
+
+  if (kind === "ens") {
+    // Farcaster usernames can be ENS names themselves
+    const user = await fetchUserByUsername(value.toLowerCase())
+    if (user) return { fid: user.fid, kind, input }
+
+    const address = await resolveEnsAddress(value)
+    if (!address) return null
+    const fid = await fidForAddress(address)
+    return fid ? { fid, kind, input, address } : null
+  }
+
+  const user = await fetchUserByUsername(value.replace(/^@/, "").toLowerCase())
+  return user ? { fid: user.fid, kind, input } : null
+}
@@ -0,0 +1,45 @@
+import type { BadgeRule } from "./badges"
+
+// Add new badges here. Every condition of a rule must hold for it to be
+// earned; the earned rule with the highest priority becomes the primary badge.
+export const BADGE_RULES: BadgeRule[] = [
+  {
+    badge: "OG",
+    description: "Power badge holder with an account older than a year",
+    priority: 100,
+    conditions: [
+      { param: "powerBadge", op: "eq", value: true },
+      { param: "ageDays", op: "gt", value: 365 },
+    ],
+  },
+  {
+    badge: "Onchain",
+    description: "More than 500 transactions on Base",
+    priority: 80,
+    conditions: [{ param: "txCount", op: "gt", value: 500 }],
+  },
+  {
+    badge: "Active",
+    description: "More than 1000 casts on an account older than 180 days",
+    priority: 60,
+    conditions: [
+      { param: "casts", op: "gt", value: 1000 },
+      { param: "ageDays", op: "gt", value: 180 },
+    ],
+  },
+  {
+    badge: "Builder",
+    description: "More than 2 verified addresses",
+    priority: 40,
+    conditions: [{ param: "verifiedAddresses", op: "gt", value: 2 }],
+  },
+  {
+    badge: "Whale",
+    description: "10,000 or more followers",
+    priority: 30,
+    conditions: [{ param: "followers", op: "gte", value: 10000 }],
+  },
+]
+
+/** Awarded when no rule matches */
+export const DEFAULT_BADGE = "Newcomer" as const
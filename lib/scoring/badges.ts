@@ -0,0 +1,57 @@
+import type { BadgeType, ScoreCalculationParams } from "@/lib/types"
+import { BADGE_RULES, DEFAULT_BADGE } from "./badge-rules"
+
+export type BadgeConditionOperator = "eq" | "gt" | "gte" | "lt" | "lte"
+
+export interface BadgeCondition {
+  param: keyof ScoreCalculationParams
+  op: BadgeConditionOperator
+  value: number | boolean
+}
+
+export interface BadgeRule {
+  badge: BadgeType
+  description: string
+  priority: number
+  conditions: BadgeCondition[]
+}
+
+export interface BadgeResult {
+  /** Highest priority badge earned, shown on the passport and minted */
+  primary: BadgeType
+  /** Every badge earned, ordered by priority */
+  badges: BadgeType[]
+}
+
+function matches(params: ScoreCalculationParams, { param, op, value }: BadgeCondition): boolean {
+  const actual = params[param]
+  switch (op) {
+    case "eq":
+      return actual === value
+    case "gt":
+      return Number(actual) > Number(value)
+    case "gte":
+      return Number(actual) >= Number(value)
+    case "lt":
+      return Number(actual) < Number(value)
+    case "lte":
+      return Number(actual) <= Number(value)
+  }
+}
+
+export function evaluateBadges(params: ScoreCalculationParams, rules: BadgeRule[] = BADGE_RULES): BadgeResult {
+  const badges = rules
+    .filter((rule) => rule.conditions.every((condition) => matches(params, condition)))
+    .sort((a, b) => b.priority - a.priority)
+    .map((rule) => rule.badge)
+
+  if (badges.length === 0) {
+    return { primary: DEFAULT_BADGE, badges: [DEFAULT_BADGE] }
+  }
+
+  return { primary: badges[0], badges }
+}
+
+export function getBadge(params: ScoreCalculationParams): BadgeType {
+  return evaluateBadges(params).primary
+}
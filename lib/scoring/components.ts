@@ -0,0 +1,157 @@
+import type { ScoreComponent } from "./types"
+
+// Followers contribution - first 5000 followers
+export const followers: ScoreComponent = {
+  id: "followers",
+  label: "Followers",
+  cap: 250,
+  input: ({ followers }) => followers,
+  compute: ({ followers }) => Math.min(followers, 5000) * 0.05,
+}
+
+// Diminishing returns for followers beyond 5000
+export const followersBonus: ScoreComponent = {
+  id: "followersBonus",
+  label: "Follower bonus",
+  cap: 50,
+  input: ({ followers }) => Math.max(followers - 5000, 0),
+  compute: ({ followers }) => (followers > 5000 ? (followers - 5000) * 0.01 : 0),
+}
+
+// v1 and v2 were published when `casts` held the verified address count, so
+// their engagement was followers per verified address. Derived here to keep
+// those versions reproducible now that `engagementRate` is reactions per cast.
+function legacyEngagementRate(followers: number, verifiedAddresses: number): number {
+  return verifiedAddresses > 0 ? Math.min((followers / verifiedAddresses) * 0.1, 20) : 0
+}
+
+export const engagementRate: ScoreComponent = {
+  id: "engagementRate",
+  label: "Engagement",
+  cap: 200,
+  input: ({ followers, verifiedAddresses }) => Number(legacyEngagementRate(followers, verifiedAddresses).toFixed(1)),
+  compute: ({ followers, verifiedAddresses }) => legacyEngagementRate(followers, verifiedAddresses) * 10,
+}
+
+// Engagement rate - quality over quantity, from scoring v3
+export const reactionsPerCast: ScoreComponent = {
+  id: "reactionsPerCast",
+  label: "Engagement",
+  cap: 200,
+  input: ({ engagementRate }) => Number(engagementRate.toFixed(1)),
+  compute: ({ engagementRate }) => engagementRate * 10,
+}
+
+// v1 and v2 read their cast count from the verified address count, as published
+export const casts: ScoreComponent = {
+  id: "casts",
+  label: "Casts",
+  cap: 150,
+  input: ({ verifiedAddresses }) => verifiedAddresses,
+  compute: ({ verifiedAddresses }) => Math.min(verifiedAddresses, 1000) * 0.15,
+}
+
+// Casts and replies authored in the activity window, from scoring v3
+export const castActivity: ScoreComponent = {
+  id: "castActivity",
+  label: "Casts",
+  cap: 150,
+  input: ({ casts }) => casts,
+  compute: ({ casts }) => Math.min(casts, 1000) * 0.15,
+}
+
+// Account age, up to 2 years
+export const ageDays: ScoreComponent = {
+  id: "ageDays",
+  label: "Account age",
+  cap: 150,
+  input: ({ ageDays }) => ageDays,
+  compute: ({ ageDays }) => Math.min(ageDays, 730) * 0.2,
+}
+
+export const txCount: ScoreComponent = {
+  id: "txCount",
+  label: "Transactions",
+  cap: 200,
+  input: ({ txCount }) => txCount,
+  compute: ({ txCount }) => Math.min(txCount, 1000) * 0.2,
+}
+
+// v2 splits the on-chain weight between nonce, active days and deployments
+export const txCountV2: ScoreComponent = {
+  id: "txCount",
+  label: "Transactions",
+  cap: 100,
+  input: ({ txCount }) => txCount,
+  compute: ({ txCount }) => Math.min(txCount, 1000) * 0.1,
+}
+
+export const activeDays: ScoreComponent = {
+  id: "activeDays",
+  label: "Active days",
+  cap: 60,
+  input: ({ activeDays = 0 }) => activeDays,
+  compute: ({ activeDays = 0 }) => Math.min(activeDays, 300) * 0.2,
+}
+
+export const contractsDeployed: ScoreComponent = {
+  id: "contractsDeployed",
+  label: "Contracts deployed",
+  cap: 40,
+  input: ({ contractsDeployed = 0 }) => contractsDeployed,
+  compute: ({ contractsDeployed = 0 }) => Math.min(contractsDeployed, 10) * 4,
+}
+
+// v3 scores the same signals across every chain in the registry
+export const weightedTxCount: ScoreComponent = {
+  id: "weightedTxCount",
+  label: "Transactions (all chains)",
+  cap: 100,
+  input: ({ weightedTxCount = 0 }) => weightedTxCount,
+  compute: ({ weightedTxCount = 0 }) => Math.min(weightedTxCount, 1000) * 0.1,
+}
+
+export const crossChainActiveDays: ScoreComponent = {
+  id: "crossChainActiveDays",
+  label: "Active days (all chains)",
+  cap: 60,
+  input: ({ crossChainActiveDays = 0 }) => crossChainActiveDays,
+  compute: ({ crossChainActiveDays = 0 }) => Math.min(crossChainActiveDays, 300) * 0.2,
+}
+
+export const crossChainContractsDeployed: ScoreComponent = {
+  id: "crossChainContractsDeployed",
+  label: "Contracts deployed (all chains)",
+  cap: 40,
+  input: ({ crossChainContractsDeployed = 0 }) => crossChainContractsDeployed,
+  compute: ({ crossChainContractsDeployed = 0 }) => Math.min(crossChainContractsDeployed, 10) * 4,
+}
+
+export const powerBadge: ScoreComponent = {
+  id: "powerBadge",
+  label: "Power badge",
+  cap: 50,
+  input: ({ powerBadge }) => powerBadge,
+  compute: ({ powerBadge }) => (powerBadge ? 50 : 0),
+}
+
+export const verifiedAddresses: ScoreComponent = {
+  id: "verifiedAddresses",
+  label: "Verified addresses",
+  cap: 50,
+  input: ({ verifiedAddresses }) => verifiedAddresses,
+  compute: ({ verifiedAddresses }) => verifiedAddresses * 10,
+}
+
+// Rewards accounts with more followers than following
+export const followerRatio: ScoreComponent = {
+  id: "followerRatio",
+  label: "Follower ratio",
+  cap: 50,
+  input: ({ followers, following }) => (following > 0 ? Number((followers / following).toFixed(2)) : 0),
+  compute: ({ followers, following }) => {
+    if (following <= 0) return 0
+    const ratio = followers / following
+    return ratio > 1 ? ratio * 10 : 0
+  },
+}
@@ -0,0 +1,60 @@
+import type { ScoreCalculationParams } from "@/lib/types"
+import { CURRENT_SCORING_VERSION, SCORING_MODELS } from "./versions"
+import type { ScoreContribution, ScoreResult, ScoringModel, ScoringVersion } from "./types"
+
+export { evaluateBadges, getBadge } from "./badges"
+export { BADGE_RULES, DEFAULT_BADGE } from "./badge-rules"
+export type { BadgeCondition, BadgeResult, BadgeRule } from "./badges"
+export { CURRENT_SCORING_VERSION } from "./versions"
+export type { ScoreComponent, ScoreContribution, ScoreResult, ScoringModel, ScoringVersion } from "./types"
+
+export function isScoringVersion(version: string): boolean {
+  return Object.hasOwn(SCORING_MODELS, version)
+}
+
+export function listScoringVersions(): ScoringVersion[] {
+  return Object.keys(SCORING_MODELS)
+}
+
+export function getScoringModel(version: ScoringVersion = CURRENT_SCORING_VERSION): ScoringModel {
+  if (!isScoringVersion(version)) {
+    throw new Error(`Unknown scoring version: ${version}`)
+  }
+  return SCORING_MODELS[version]
+}
+
+export function calculateScore(
+  params: ScoreCalculationParams,
+  version: ScoringVersion = CURRENT_SCORING_VERSION,
+): ScoreResult {
+  const model = getScoringModel(version)
+
+  const breakdown: ScoreContribution[] = model.components.map((component) => ({
+    id: component.id,
+    label: component.label,
+    input: component.input(params),
+    points: Math.min(Math.max(component.compute(params), 0), component.cap),
+    cap: component.cap,
+  }))
+  const score = breakdown.reduce((total, contribution) => total + contribution.points, 0)
+
+  return {
+    score: Math.floor(Math.min(score, model.maxScore)),
+    version: model.version,
+    breakdown: breakdown.map((contribution) => ({
+      ...contribution,
+      points: Number.parseFloat(contribution.points.toFixed(1)),
+    })),
+  }
+}
+
+/**
+ * Scores the same inputs under several model versions, e.g. to compare a
+ * historical passport against the current model.
+ */
+export function calculateScoreVersions(
+  params: ScoreCalculationParams,
+  versions: ScoringVersion[] = listScoringVersions(),
+): ScoreResult[] {
+  return versions.map((version) => calculateScore(params, version))
+}
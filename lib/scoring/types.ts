@@ -0,0 +1,36 @@
+import type { ScoreCalculationParams } from "@/lib/types"
+
+export type ScoringVersion = string
+
+export interface ScoreComponent {
+  /** Stable identifier, never reuse it for a different formula */
+  id: string
+  label: string
+  /** Maximum number of points this component can contribute */
+  cap: number
+  /** Raw input shown in the score breakdown */
+  input: (params: ScoreCalculationParams) => number | boolean
+  /** Raw points before the cap is applied */
+  compute: (params: ScoreCalculationParams) => number
+}
+
+export interface ScoringModel {
+  version: ScoringVersion
+  description: string
+  maxScore: number
+  components: ScoreComponent[]
+}
+
+export interface ScoreContribution {
+  id: string
+  label: string
+  input: number | boolean
+  points: number
+  cap: number
+}
+
+export interface ScoreResult {
+  score: number
+  version: ScoringVersion
+  breakdown: ScoreContribution[]
+}
@@ -0,0 +1,67 @@
+import * as components from "./components"
+import type { ScoringModel, ScoringVersion } from "./types"
+
+// Published models are frozen: change weights by adding a new version,
+// otherwise previously minted passports can no longer be reproduced.
+const v1: ScoringModel = {
+  version: "v1",
+  description: "Original social + Base transaction count model",
+  maxScore: 1000,
+  components: [
+    components.followers,
+    components.followersBonus,
+    components.engagementRate,
+    components.casts,
+    components.ageDays,
+    components.txCount,
+    components.powerBadge,
+    components.verifiedAddresses,
+    components.followerRatio,
+  ],
+}
+
+const v2: ScoringModel = {
+  version: "v2",
+  description: "Aggregated on-chain activity across all linked addresses",
+  maxScore: 1000,
+  components: [
+    components.followers,
+    components.followersBonus,
+    components.engagementRate,
+    components.casts,
+    components.ageDays,
+    components.txCountV2,
+    components.activeDays,
+    components.contractsDeployed,
+    components.powerBadge,
+    components.verifiedAddresses,
+    components.followerRatio,
+  ],
+}
+
+const v3: ScoringModel = {
+  version: "v3",
+  description: "Real cast activity, reactions per cast and on-chain activity across every chain in the registry",
+  maxScore: 1000,
+  components: [
+    components.followers,
+    components.followersBonus,
+    components.reactionsPerCast,
+    components.castActivity,
+    components.ageDays,
+    components.weightedTxCount,
+    components.crossChainActiveDays,
+    components.crossChainContractsDeployed,
+    components.powerBadge,
+    components.verifiedAddresses,
+    components.followerRatio,
+  ],
+}
+
+export const SCORING_MODELS: Record<ScoringVersion, ScoringModel> = {
+  [v1.version]: v1,
+  [v2.version]: v2,
+  [v3.version]: v3,
+}
+
+export const CURRENT_SCORING_VERSION: ScoringVersion = v3.version
@@ -0,0 +1,115 @@
+import type { Address } from "viem"
+
+export const SESSION_COOKIE = "fc_session"
+export const NONCE_COOKIE = "fc_siwf_nonce"
+
+const DEFAULT_SESSION_TTL_SECONDS = 7 * 24 * 60 * 60
+export const NONCE_TTL_SECONDS = 5 * 60
+
+/** The signed-in Farcaster user, as carried by the session cookie */
+export interface FarcasterSession {
+  fid: number
+  address: Address
+  issuedAt: number
+  expiresAt: number
+}
+
+const encoder = new TextEncoder()
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = ""
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+export function hasSessionSecret(): boolean {
+  return Boolean(process.env.SESSION_SECRET)
+}
+
+export function getSessionTtlSeconds(): number {
+  const ttl = Number(process.env.SESSION_TTL_SECONDS)
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_SESSION_TTL_SECONDS
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+  const secret = process.env.SESSION_SECRET
+  if (!secret) {
+    throw new Error("Session secret not configured. Please set SESSION_SECRET in your environment variables.")
+  }
+  return crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"])
+}
+
+/** Serializes `payload` as `base64url(json).base64url(hmac)` */
+export async function signToken(payload: object): Promise<string> {
+  const body = base64UrlEncode(encoder.encode(JSON.stringify(payload)))
+  const signature = await crypto.subtle.sign("HMAC", await getSigningKey(), encoder.encode(body))
+  return `${body}.${base64UrlEncode(new Uint8Array(signature))}`
+}
+
+/** Returns the payload of a token made by `signToken`, or null if it was tampered with */
+export async function verifyToken<T>(token: string): Promise<T | null> {
+  const [body, signature] = token.split(".")
+  if (!body || !signature) return null
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await getSigningKey(),
+      base64UrlDecode(signature),
+      encoder.encode(body),
+    )
+    if (!valid) return null
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(body))) as T
+  } catch {
+    return null
+  }
+}
+
+export async function createSessionToken(fid: number, address: Address): Promise<string> {
+  const issuedAt = Math.floor(Date.now() / 1000)
+  const session: FarcasterSession = { fid, address, issuedAt, expiresAt: issuedAt + getSessionTtlSeconds() }
+  return signToken(session)
+}
+
+export function readCookie(req: Request, name: string): string | null {
+  const header = req.headers.get("cookie")
+  if (!header) return null
+
+  for (const part of header.split(";")) {
+    const [key, ...rest] = part.trim().split("=")
+    if (key === name) return decodeURIComponent(rest.join("="))
+  }
+  return null
+}
+
+/**
+ * Reads and verifies the session cookie on a request. Returns null when
+ * there is no session, it has expired or SESSION_SECRET is not set.
+ */
+export async function getSession(req: Request): Promise<FarcasterSession | null> {
+  const token = readCookie(req, SESSION_COOKIE)
+  if (!token || !hasSessionSecret()) return null
+
+  const session = await verifyToken<FarcasterSession>(token)
+  if (!session || session.expiresAt <= Math.floor(Date.now() / 1000)) return null
+  return session
+}
+
+/**
+ * Cookie attributes shared by the session and nonce cookies. SameSite=None
+ * keeps the session working when the app is embedded as a Farcaster mini app.
+ */
+export function getCookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    secure: true,
+    sameSite: "none" as const,
+    path: "/",
+    maxAge,
+  }
+}
@@ -0,0 +1,68 @@
+import { verifyMessage, type Address, type Hex } from "viem"
+import { parseSiweMessage, validateSiweMessage } from "viem/siwe"
+
+const DEFAULT_MAX_AGE_SECONDS = 600
+const FID_RESOURCE_PATTERN = /^farcaster:\/\/fid\/(\d+)$/
+
+/** A Sign In With Farcaster message (EIP-4361 with a `farcaster://fid/{fid}` resource) and its signature */
+export interface SiwfCredentials {
+  message: string
+  signature: Hex
+}
+
+export type SiwfErrorCode = "SIWF_INVALID_MESSAGE" | "SIWF_EXPIRED" | "SIWF_INVALID_SIGNATURE"
+
+export type SiwfResult =
+  | { ok: true; fid: number; address: Address; nonce: string }
+  | { ok: false; code: SiwfErrorCode; error: string }
+
+export interface SiwfVerifyOptions {
+  /** Host the message must have been issued for, e.g. `passport.example.com` */
+  domain: string
+  /** Expected nonce, when the caller issued one */
+  nonce?: string
+  /** Oldest `issuedAt` accepted, defaults to SIWF_MAX_AGE_SECONDS or 600 */
+  maxAgeSeconds?: number
+}
+
+function getMaxAgeSeconds(): number {
+  const maxAge = Number(process.env.SIWF_MAX_AGE_SECONDS)
+  return Number.isFinite(maxAge) && maxAge > 0 ? maxAge : DEFAULT_MAX_AGE_SECONDS
+}
+
+/**
+ * Checks the SIWF message format, domain, nonce and freshness, then recovers
+ * the signer. The caller still has to compare the returned address with the
+ * FID's custody address.
+ */
+export async function verifySiwfMessage(credentials: SiwfCredentials, options: SiwfVerifyOptions): Promise<SiwfResult> {
+  const parsed = parseSiweMessage(credentials.message)
+  const fidResource = parsed.resources?.map((resource) => FID_RESOURCE_PATTERN.exec(resource)).find(Boolean)
+
+  if (!parsed.address || !parsed.nonce || !fidResource) {
+    return { ok: false, code: "SIWF_INVALID_MESSAGE", error: "Not a Sign In With Farcaster message" }
+  }
+
+  const now = new Date()
+  if (!validateSiweMessage({ message: parsed, domain: options.domain, nonce: options.nonce, time: now })) {
+    return { ok: false, code: "SIWF_INVALID_MESSAGE", error: "Sign-in message was issued for another domain or has expired" }
+  }
+
+  const maxAgeMs = (options.maxAgeSeconds ?? getMaxAgeSeconds()) * 1000
+  if (!parsed.issuedAt || now.getTime() - parsed.issuedAt.getTime() > maxAgeMs) {
+    return { ok: false, code: "SIWF_EXPIRED", error: "Sign-in message is too old, please sign in again" }
+  }
+
+  const valid = await verifyMessage({
+    address: parsed.address,
+    message: credentials.message,
+    signature: credentials.signature,
+  }).catch(() => false)
+
+  if (!valid) {
+    return { ok: false, code: "SIWF_INVALID_SIGNATURE", error: "Sign-in signature does not match the message address" }
+  }
+
+  return { ok: true, fid: Number(fidResource[1]), address: parsed.address, nonce: parsed.nonce }
+}
+
@@ -1,3 +1,6 @@
+import type { ScoreContribution } from "@/lib/scoring"
+import type { OnchainActivity } from "@/lib/onchain"
+
 export interface PassportData {
   fid: number
   username: string
@@ -5,7 +8,10 @@ export interface PassportData {
   pfpUrl: string
   bio: string
   score: number
+  scoringVersion: string
+  breakdown?: ScoreContribution[]
   badge: BadgeType
+  badges: BadgeType[]
   custody: string
   followers: number
   following: number
@@ -15,19 +21,34 @@ export interface PassportData {
   powerBadge: boolean
   verifiedAddresses: string[]
   engagementRate: number
+  activity?: UserActivity
+  onchain?: OnchainActivity
 }
 
-export type BadgeType = "OG" | "Onchain" | "Active" | "Builder" | "Newcomer"
+export type BadgeType = "OG" | "Onchain" | "Active" | "Builder" | "Whale" | "Newcomer"
 
 export interface ScoreCalculationParams {
   followers: number
   following: number
+  /** Casts and replies in the activity window, scored from v3 */
   casts: number
   ageDays: number
+  /** Nonces summed across the user's addresses on Base */
   txCount: number
   powerBadge: boolean
   verifiedAddresses: number
+  /** Likes and recasts received per cast, scored from v3 */
   engagementRate: number
+  /** Distinct days with on-chain activity on Base, used from scoring v2 */
+  activeDays?: number
+  /** Contracts deployed by the user's addresses on Base, used from scoring v2 */
+  contractsDeployed?: number
+  /** Transactions on every registry chain, multiplied by each chain's weight, used from scoring v3 */
+  weightedTxCount?: number
+  /** Distinct days with on-chain activity on any registry chain, used from scoring v3 */
+  crossChainActiveDays?: number
+  /** Contracts deployed on any registry chain, used from scoring v3 */
+  crossChainContractsDeployed?: number
 }
 
 export interface NeynarUser {
@@ -54,6 +75,47 @@ export interface NeynarResponse {
   users: NeynarUser[]
 }
 
+export interface NeynarCast {
+  hash: string
+  parent_hash: string | null
+  timestamp: string
+  reactions?: {
+    likes_count: number
+    recasts_count: number
+  }
+  replies?: {
+    count: number
+  }
+}
+
+export interface NeynarCastsResponse {
+  casts: NeynarCast[]
+  next?: {
+    cursor: string | null
+  }
+}
+
+export interface UserActivity {
+  windowDays: number
+  /** Top-level casts authored in the window */
+  casts: number
+  /** Replies authored in the window */
+  replies: number
+  likesReceived: number
+  recastsReceived: number
+  repliesReceived: number
+  /** Likes + recasts received on casts in the window */
+  reactionsReceived: number
+  /** Reactions received per authored cast */
+  engagementRate: number
+  /** True when the page limit was hit before the window was covered */
+  truncated: boolean
+}
+
+export interface NeynarUserWithActivity extends NeynarUser {
+  activity: UserActivity
+}
+
 export interface FrameMetadata {
   version: "next"
   imageUrl: string
@@ -5,12 +5,18 @@ const hre = require("hardhat")
 
 async function main() {
   const baseTokenURI = process.env.NEXT_PUBLIC_APP_URL + "/api/metadata"
+  // Address of MINT_SIGNER_PRIVATE_KEY, the key /api/mint signs vouchers with
+  const mintSigner = process.env.MINT_SIGNER_ADDRESS
+  if (!mintSigner) {
+    throw new Error("MINT_SIGNER_ADDRESS is required")
+  }
 
   console.log("Deploying ReputationPassport contract...")
   console.log("Base Token URI:", baseTokenURI)
+  console.log("Mint signer:", mintSigner)
 
   const ReputationPassport = await hre.ethers.getContractFactory("ReputationPassport")
-  const passport = await ReputationPassport.deploy(baseTokenURI)
+  const passport = await ReputationPassport.deploy(baseTokenURI, mintSigner)
 
   await passport.waitForDeployment()
 
@@ -23,7 +29,7 @@ async function main() {
   console.log("\nVerifying contract...")
   await hre.run("verify:verify", {
     address: address,
-    constructorArguments: [baseTokenURI],
+    constructorArguments: [baseTokenURI, mintSigner],
   })
 }
 